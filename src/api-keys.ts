@@ -0,0 +1,75 @@
+import crypto from 'crypto';
+import { ApiKey, TinkSESConfig } from './config.js';
+
+/**
+ * Prefix of generated keys, makes them easy to spot in code and secret scanners
+ */
+const KEY_PREFIX = 'tks_';
+
+/**
+ * Hash an API key for storage. Keys are random, so a fast hash is sufficient.
+ * @param key Plaintext key
+ */
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Find a configured API key by name
+ * @param config TinkSES configuration
+ * @param name Key name
+ */
+export function findApiKey(config: TinkSESConfig, name: string): ApiKey | undefined {
+  return (config.apiKeys || []).find(apiKey => apiKey.name === name);
+}
+
+/**
+ * Find the API key matching a key presented by a client
+ * @param config TinkSES configuration
+ * @param key Plaintext key
+ * @returns The matching key or undefined if the key is unknown
+ */
+export function authenticateApiKey(config: TinkSESConfig, key: string): ApiKey | undefined {
+  const hash = Buffer.from(hashApiKey(key), 'hex');
+  return (config.apiKeys || []).find(apiKey => {
+    const expected = Buffer.from(apiKey.keyHash, 'hex');
+    return expected.length === hash.length && crypto.timingSafeEqual(expected, hash);
+  });
+}
+
+/**
+ * Generate a new API key and add its hash to the configuration
+ * @param config TinkSES configuration
+ * @param name Key name
+ * @param allowedSenders Sender addresses or domains the key may send from
+ * @returns The plaintext key, it cannot be recovered later
+ */
+export function addApiKey(
+  config: TinkSESConfig,
+  name: string,
+  allowedSenders: string[] = []
+): string {
+  if (findApiKey(config, name)) {
+    throw new Error(`API key '${name}' already exists`);
+  }
+
+  const key = KEY_PREFIX + crypto.randomBytes(32).toString('base64url');
+  const apiKey: ApiKey = { name, keyHash: hashApiKey(key) };
+  if (allowedSenders.length > 0) {
+    apiKey.allowedSenders = allowedSenders;
+  }
+  config.apiKeys = [...(config.apiKeys || []), apiKey];
+  return key;
+}
+
+/**
+ * Remove an API key from the configuration
+ * @param config TinkSES configuration
+ * @param name Key name
+ */
+export function removeApiKey(config: TinkSESConfig, name: string): void {
+  if (!findApiKey(config, name)) {
+    throw new Error(`API key '${name}' does not exist`);
+  }
+  config.apiKeys = (config.apiKeys || []).filter(apiKey => apiKey.name !== name);
+}
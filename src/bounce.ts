@@ -0,0 +1,125 @@
+import crypto from 'crypto';
+import { QueueEntry, QueuedRecipient } from './queue.js';
+import { getHeaderBlock } from './message.js';
+
+export interface BounceOptions {
+  /** Host name of this server, reported as Reporting-MTA */
+  reportingMta: string;
+  /** Sender address of the bounce message */
+  from: string;
+}
+
+export interface BounceMessage {
+  messageId: string;
+  message: Buffer;
+}
+
+/**
+ * A failed recipient without a permanent reply code ran out of retries
+ */
+function isExpired(recipient: QueuedRecipient): boolean {
+  return !recipient.responseCode || recipient.responseCode < 500;
+}
+
+/**
+ * Status code reported for a failed recipient
+ */
+function recipientStatus(recipient: QueuedRecipient): string {
+  if (isExpired(recipient)) return '4.4.7';
+  if (recipient.enhancedStatus && recipient.enhancedStatus.startsWith('5')) {
+    return recipient.enhancedStatus;
+  }
+  return '5.0.0';
+}
+
+/**
+ * Generate an RFC 3464 delivery status notification for failed recipients
+ * @param options Bounce options
+ * @param entry Queue entry of the original message
+ * @param recipients Recipients that failed permanently or expired
+ * @param originalMessage Raw original message, its headers are attached to the report
+ */
+export function generateBounceMessage(
+  options: BounceOptions,
+  entry: QueueEntry,
+  recipients: QueuedRecipient[],
+  originalMessage: Buffer
+): BounceMessage {
+  const boundary = `----=_DSN_${crypto.randomBytes(12).toString('hex')}`;
+  const fromDomain = options.from.split('@')[1] || options.reportingMta;
+  const messageId = `<${Date.now()}.${crypto.randomBytes(8).toString('hex')}@${fromDomain}>`;
+  const arrivalDate = new Date(entry.createdAt).toUTCString();
+
+  const humanText = [
+    `This is the mail system at host ${options.reportingMta}.`,
+    '',
+    "I'm sorry to have to inform you that your message could not",
+    'be delivered to one or more recipients.',
+    '',
+    ...recipients.map(recipient =>
+      isExpired(recipient)
+        ? `<${recipient.address}>: delivery time expired after ${recipient.attempts} attempts: ${recipient.lastError}`
+        : `<${recipient.address}>: ${recipient.lastError}`
+    ),
+  ];
+
+  const perMessageFields = [
+    `Reporting-MTA: dns; ${options.reportingMta}`,
+    `X-TinkSES-Queue-ID: ${entry.id}`,
+    `Arrival-Date: ${arrivalDate}`,
+  ];
+
+  const perRecipientFields = recipients.map(recipient => {
+    const fields = [
+      `Final-Recipient: rfc822; ${recipient.address}`,
+      'Action: failed',
+      `Status: ${recipientStatus(recipient)}`,
+    ];
+    if (recipient.remoteMta) {
+      fields.push(`Remote-MTA: dns; ${recipient.remoteMta}`);
+    }
+    if (recipient.lastError) {
+      fields.push(`Diagnostic-Code: smtp; ${recipient.lastError.replace(/\s+/g, ' ')}`);
+    }
+    if (recipient.lastAttempt) {
+      fields.push(`Last-Attempt-Date: ${new Date(recipient.lastAttempt).toUTCString()}`);
+    }
+    return fields.join('\r\n');
+  });
+
+  const message = [
+    `From: Mail Delivery System <${options.from}>`,
+    `To: <${entry.from}>`,
+    'Subject: Undelivered Mail Returned to Sender',
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    'Auto-Submitted: auto-replied',
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/report; report-type=delivery-status; boundary="${boundary}"`,
+    '',
+    'This is a MIME-encapsulated message.',
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+    '',
+    ...humanText,
+    '',
+    `--${boundary}`,
+    'Content-Type: message/delivery-status',
+    '',
+    perMessageFields.join('\r\n'),
+    '',
+    perRecipientFields.join('\r\n\r\n'),
+    '',
+    `--${boundary}`,
+    'Content-Type: text/rfc822-headers',
+    '',
+    getHeaderBlock(originalMessage).replace(/\r?\n/g, '\r\n'),
+    '',
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+
+  return { messageId, message: Buffer.from(message, 'utf8') };
+}
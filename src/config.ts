@@ -1,27 +1,441 @@
 import fs from 'fs';
 import path from 'path';
+import { logger } from './logger.js';
 
-export interface DkimConfig {
+export interface DkimKey {
   publicKey: string;
   privateKey: string;
   selector: string;
 }
 
+/**
+ * A signing key and the state of its rotation
+ */
+export interface DkimKeyConfig extends DkimKey {
+  /** Key being rotated to, it replaces the current key once its DNS record is published */
+  next?: DkimKey & {
+    /** ISO 8601 time the rotation started */
+    createdAt: string;
+  };
+  /** Key replaced by the last rotation */
+  previous?: {
+    selector: string;
+    /** ISO 8601 time the key was replaced */
+    retiredAt: string;
+    /** ISO 8601 time after which the DNS record of the key can be removed */
+    removeAfter: string;
+  };
+}
+
+export interface DkimConfig extends DkimKeyConfig {
+  /** Second key every message is also signed with, e.g. an Ed25519 key next to an RSA key */
+  secondary?: DkimKeyConfig;
+}
+
+export interface SmtpUser {
+  username: string;
+  /** scrypt hash in the form `scrypt$N$r$p$salt$hash` */
+  passwordHash: string;
+  /** Sender addresses (`user@example.com`) or domains (`example.com`) the user may send from */
+  allowedSenders?: string[];
+}
+
+export interface ApiKey {
+  name: string;
+  /** Hex encoded SHA-256 hash of the key */
+  keyHash: string;
+  /** Sender addresses (`user@example.com`) or domains (`example.com`) the key may send from */
+  allowedSenders?: string[];
+}
+
+export interface TlsConfig {
+  /** Path to the PEM encoded certificate chain */
+  cert: string;
+  /** Path to the PEM encoded private key */
+  key: string;
+  /** Port of an additional listener using implicit TLS, usually 465 */
+  implicitPort?: number;
+  /** Only allow AUTH on encrypted connections, defaults to true */
+  requireTlsForAuth?: boolean;
+}
+
+export type DmarcPolicy = 'none' | 'quarantine' | 'reject';
+
+/**
+ * `r` (relaxed) aligns domains with the same organizational domain, `s` (strict) only
+ * identical domains
+ */
+export type DmarcAlignmentMode = 'r' | 's';
+
+export interface DmarcConfig {
+  policy: DmarcPolicy;
+  /** Policy of subdomains, the `sp=` tag, defaults to `policy` */
+  subdomainPolicy?: DmarcPolicy;
+  /** Percentage of failing messages the policy is applied to, the `pct=` tag, defaults to 100 */
+  percentage?: number;
+  /** DKIM alignment mode, the `adkim=` tag, defaults to `r` */
+  dkimAlignment?: DmarcAlignmentMode;
+  /** SPF alignment mode, the `aspf=` tag, defaults to `r` */
+  spfAlignment?: DmarcAlignmentMode;
+  /** Addresses aggregate reports are sent to, the `rua=` tag */
+  reportTo?: string[];
+  /** Whether submitted messages that would fail DMARC are only logged or rejected */
+  alignmentAction?: 'warn' | 'reject';
+}
+
+export interface DomainConfig {
+  dkim: DkimConfig;
+  /** IP addresses allowed to send for this domain, defaults to the global `ip` list */
+  ip?: string[];
+  dmarc?: DmarcConfig;
+  /** EHLO name of connections for this domain, defaults to `outbound.ehloName` */
+  ehloName?: string;
+  /** Name of the IP pool connections for this domain are bound to, defaults to `outbound.ipPool` */
+  ipPool?: string;
+}
+
+export interface QueueConfig {
+  /** Directory where accepted messages are spooled until delivered */
+  dir: string;
+  /** Delays in seconds between delivery attempts, the last one is repeated */
+  retryDelays: number[];
+  /** Seconds after which an undeliverable message is given up */
+  maxAge: number;
+  /** Seconds between queue scans */
+  pollInterval: number;
+}
+
+export interface BounceConfig {
+  /** Send delivery status notifications to the envelope sender of failed messages */
+  enabled: boolean;
+  /** Sender address of bounce messages, defaults to MAILER-DAEMON@<domain> */
+  from: string;
+}
+
+/**
+ * `raw` relays the received message as is, `recompose` rebuilds it with nodemailer
+ */
+export type RelayMode = 'raw' | 'recompose';
+
+/**
+ * `require` only delivers over TLS with a valid certificate, `opportunistic` uses STARTTLS
+ * when offered without checking the certificate, `none` never uses TLS
+ */
+export type TlsPolicyMode = 'require' | 'opportunistic' | 'none';
+
+export interface OutboundTlsConfig {
+  /** Policy for destinations without an override or MTA-STS policy */
+  defaultPolicy: TlsPolicyMode;
+  /** Look up and apply the MTA-STS policies of destination domains */
+  mtaSts: boolean;
+  /** Policy overrides per destination domain */
+  policies: Record<string, TlsPolicyMode>;
+}
+
+export interface OutboundAddress {
+  /** Local address connections are bound to */
+  address: string;
+  /** EHLO name of connections from the address, e.g. the name of its PTR record */
+  ehloName?: string;
+}
+
+/**
+ * `ipv4` and `ipv6` try the addresses of an MX host of that family first, `ipv4-only` and
+ * `ipv6-only` never connect to the other family
+ */
+export type AddressFamilyPreference = 'ipv4' | 'ipv6' | 'ipv4-only' | 'ipv6-only';
+
+export interface OutboundConfig {
+  /** EHLO name, defaults to the envelope sender domain */
+  ehloName?: string;
+  /** Local addresses by pool name, connections rotate through the addresses of a pool */
+  ipPools: Record<string, (string | OutboundAddress)[]>;
+  /** Pool of domains without their own, the operating system picks the address if not set */
+  ipPool?: string;
+  addressFamily: AddressFamilyPreference;
+}
+
+export interface SmarthostConfig {
+  host: string;
+  /** Usually 587 for STARTTLS, 465 for implicit TLS or 2525 */
+  port: number;
+  /** `starttls` requires an upgrade with STARTTLS, `tls` connects with implicit TLS */
+  security?: 'starttls' | 'tls' | 'none';
+  auth?: {
+    user: string;
+    pass: string;
+  };
+  /** Verify the certificate of the smarthost, defaults to true */
+  rejectUnauthorized?: boolean;
+  /** Recipient domains relayed through this host, all domains without another smarthost if omitted */
+  domains?: string[];
+}
+
+/**
+ * `deliver` sends messages to the MX hosts of their recipients, `sink` writes them to a
+ * directory, `redirect` delivers them to a single catch-all address and `relay` sends them
+ * to a fixed host, e.g. a local MailHog
+ */
+export type DeliveryMode = 'deliver' | 'sink' | 'redirect' | 'relay';
+
+export interface DeliveryModeConfig {
+  mode: DeliveryMode;
+  /** Directory signed messages are written to in `sink` mode */
+  sinkDir: string;
+  /** Address all recipients are replaced with in `redirect` mode */
+  redirectTo?: string;
+  /** Host all messages are sent to in `relay` mode */
+  relayHost: string;
+  relayPort: number;
+}
+
+export interface SuppressionConfig {
+  /** File the suppression list is stored in */
+  file: string;
+  /** `reject` refuses suppressed recipients, `drop` accepts the message without delivering to them */
+  action: 'reject' | 'drop';
+  /** Add recipients to the list when their delivery fails permanently */
+  autoAdd: boolean;
+  /** Seconds until an entry for a soft bounce, e.g. a full mailbox, expires */
+  softBounceExpiry: number;
+}
+
+export interface DestinationLimits {
+  /** Maximum simultaneous connections to the destination */
+  maxConnections: number;
+  /** Maximum messages delivered over one connection */
+  maxMessagesPerConnection: number;
+  /** Maximum messages per minute to the destination, 0 for no limit */
+  messagesPerMinute: number;
+}
+
+export interface RateLimitConfig {
+  /** Messages per minute each SMTP user or API key may submit, 0 for no limit */
+  userMessagesPerMinute: number;
+  /** Messages per minute delivered to all destinations together, 0 for no limit */
+  messagesPerMinute: number;
+  /** Maximum simultaneous outbound connections */
+  maxConnections: number;
+  /** Limits of destination domains without a preset or override */
+  destination: DestinationLimits;
+  /** Limits per destination domain, merged over the provider presets */
+  destinations: Record<string, Partial<DestinationLimits>>;
+}
+
+export interface HttpApiConfig {
+  /** Start the HTTP API next to the SMTP listener */
+  enabled: boolean;
+  port: number;
+  host: string;
+  /** Maximum size of a request body in bytes */
+  maxBodySize: number;
+}
+
+export type WebhookEventType = 'accepted' | 'delivered' | 'deferred' | 'bounced';
+
+export interface WebhookEndpoint {
+  url: string;
+  /** Secret the events are signed with using HMAC-SHA256 */
+  secret: string;
+  /** Event types sent to the endpoint, all types if omitted */
+  events?: WebhookEventType[];
+}
+
+export interface WebhookConfig {
+  endpoints: WebhookEndpoint[];
+  /** Delays in seconds between attempts to deliver an event */
+  retryDelays: number[];
+  /** Seconds to wait for an endpoint to respond */
+  timeout: number;
+  /** File events are appended to when an endpoint could not be reached */
+  failedLog: string;
+}
+
+export interface MetricsConfig {
+  /** Serve Prometheus metrics on `/metrics` */
+  enabled: boolean;
+  port: number;
+  host: string;
+}
+
+export interface DmarcReportConfig {
+  /** Address aggregate reports are accepted for without authentication, the `rua` address */
+  address?: string;
+  /** Maildir received reports are stored in */
+  dir: string;
+  /** Maximum size in bytes of a message sent without authentication */
+  maxSize: number;
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogConfig {
+  level: LogLevel;
+  /** `text` for people, `json` with one object per line for log shippers */
+  format: 'text' | 'json';
+  /** File log lines are written to in addition to the console */
+  file?: string;
+  /** Size in bytes at which the log file is rotated */
+  maxSize: number;
+  /** Number of rotated log files to keep */
+  maxFiles: number;
+}
+
 export interface TinkSESConfig {
   port: number;
   host: string;
-  username: string;
-  password: string;
+  /** Certificate for STARTTLS and the implicit TLS listener */
+  tls?: TlsConfig;
+  /** @deprecated Plaintext credentials of older configurations, use `users` instead */
+  username?: string;
+  /** @deprecated Plaintext credentials of older configurations, use `users` instead */
+  password?: string;
+  users?: SmtpUser[];
+  /** Keys authenticating requests to the HTTP API */
+  apiKeys?: ApiKey[];
+  http?: Partial<HttpApiConfig>;
   domain: string;
   ip: string[];
   dkim: DkimConfig;
+  dmarc?: DmarcConfig;
+  /** Additional sending domains, each with its own DKIM key */
+  domains?: Record<string, DomainConfig>;
+  relayMode?: RelayMode;
+  delivery?: Partial<DeliveryModeConfig>;
+  /** Upstream relays that messages are handed to instead of the MX hosts */
+  smarthosts?: SmarthostConfig[];
+  outboundTls?: Partial<OutboundTlsConfig>;
+  outbound?: Partial<OutboundConfig>;
+  queue?: Partial<QueueConfig>;
+  bounce?: Partial<BounceConfig>;
+  suppression?: Partial<SuppressionConfig>;
+  rateLimits?: Partial<RateLimitConfig>;
+  webhooks?: Partial<WebhookConfig>;
+  log?: Partial<LogConfig>;
+  metrics?: Partial<MetricsConfig>;
+  dmarcReports?: Partial<DmarcReportConfig>;
 }
 
+export const defaultOutboundConfig: OutboundConfig = {
+  ipPools: {},
+  addressFamily: 'ipv4',
+};
+
+export const defaultOutboundTlsConfig: OutboundTlsConfig = {
+  defaultPolicy: 'opportunistic',
+  mtaSts: true,
+  policies: {},
+};
+
+export const defaultQueueConfig: QueueConfig = {
+  dir: './queue',
+  retryDelays: [60, 300, 1800, 7200, 21600],
+  maxAge: 5 * 24 * 3600,
+  pollInterval: 30,
+};
+
+export const defaultDeliveryModeConfig: DeliveryModeConfig = {
+  mode: 'deliver',
+  sinkDir: './sink',
+  relayHost: 'localhost',
+  relayPort: 1025,
+};
+
+export const defaultSuppressionConfig: SuppressionConfig = {
+  file: './suppressions.json',
+  action: 'reject',
+  autoAdd: true,
+  softBounceExpiry: 7 * 24 * 3600,
+};
+
+export const defaultRateLimitConfig: RateLimitConfig = {
+  userMessagesPerMinute: 0,
+  messagesPerMinute: 0,
+  maxConnections: 20,
+  destination: {
+    maxConnections: 5,
+    maxMessagesPerConnection: 100,
+    messagesPerMinute: 0,
+  },
+  destinations: {},
+};
+
+const gmailLimits: Partial<DestinationLimits> = {
+  maxConnections: 5,
+  maxMessagesPerConnection: 100,
+  messagesPerMinute: 300,
+};
+const outlookLimits: Partial<DestinationLimits> = {
+  maxConnections: 2,
+  maxMessagesPerConnection: 20,
+  messagesPerMinute: 60,
+};
+const yahooLimits: Partial<DestinationLimits> = {
+  maxConnections: 3,
+  maxMessagesPerConnection: 20,
+  messagesPerMinute: 60,
+};
+const icloudLimits: Partial<DestinationLimits> = {
+  maxConnections: 3,
+  maxMessagesPerConnection: 20,
+  messagesPerMinute: 60,
+};
+
+/**
+ * Conservative limits of large mailbox providers, which throttle or block senders that
+ * open many connections at once
+ */
+export const providerLimitPresets: Record<string, Partial<DestinationLimits>> = {
+  'gmail.com': gmailLimits,
+  'googlemail.com': gmailLimits,
+  'outlook.com': outlookLimits,
+  'hotmail.com': outlookLimits,
+  'live.com': outlookLimits,
+  'msn.com': outlookLimits,
+  'yahoo.com': yahooLimits,
+  'ymail.com': yahooLimits,
+  'aol.com': yahooLimits,
+  'icloud.com': icloudLimits,
+  'me.com': icloudLimits,
+  'mac.com': icloudLimits,
+};
+
+export const defaultHttpApiConfig: HttpApiConfig = {
+  enabled: false,
+  port: 8025,
+  host: 'localhost',
+  maxBodySize: 25 * 1024 * 1024,
+};
+
+export const defaultWebhookConfig: WebhookConfig = {
+  endpoints: [],
+  retryDelays: [10, 60, 300, 1800],
+  timeout: 10,
+  failedLog: './webhooks-failed.jsonl',
+};
+
+export const defaultMetricsConfig: MetricsConfig = {
+  enabled: false,
+  port: 9325,
+  host: 'localhost',
+};
+
+export const defaultDmarcReportConfig: DmarcReportConfig = {
+  dir: './dmarc-reports',
+  maxSize: 10 * 1024 * 1024,
+};
+
+export const defaultLogConfig: LogConfig = {
+  level: 'info',
+  format: 'text',
+  maxSize: 10 * 1024 * 1024,
+  maxFiles: 5,
+};
+
 export const defaultConfig: TinkSESConfig = {
   port: 25,
   host: 'localhost',
-  username: 'user',
-  password: 'password',
+  users: [],
   domain: 'example.com',
   ip: [],
   dkim: {
@@ -31,12 +445,138 @@ export const defaultConfig: TinkSESConfig = {
   },
 };
 
+export function getOutboundConfig(config: TinkSESConfig): OutboundConfig {
+  return { ...defaultOutboundConfig, ...config.outbound };
+}
+
+export function getOutboundTlsConfig(config: TinkSESConfig): OutboundTlsConfig {
+  const outboundTls = { ...defaultOutboundTlsConfig, ...config.outboundTls };
+  const policies: Record<string, TlsPolicyMode> = {};
+  for (const [domain, mode] of Object.entries(outboundTls.policies)) {
+    policies[domain.toLowerCase()] = mode;
+  }
+  return { ...outboundTls, policies };
+}
+
+/**
+ * Find the smarthost a recipient domain is relayed through. Smarthosts listing the domain
+ * take precedence over smarthosts for all domains.
+ * @param config TinkSES configuration
+ * @param domain Recipient domain, lower case
+ * @returns The smarthost, or undefined to deliver to the MX hosts of the domain
+ */
+export function getSmarthost(config: TinkSESConfig, domain: string): SmarthostConfig | undefined {
+  const smarthosts = config.smarthosts || [];
+  return (
+    smarthosts.find(smarthost =>
+      smarthost.domains?.some(scoped => scoped.toLowerCase() === domain)
+    ) || smarthosts.find(smarthost => !smarthost.domains)
+  );
+}
+
+export function getDeliveryModeConfig(config: TinkSESConfig): DeliveryModeConfig {
+  return { ...defaultDeliveryModeConfig, ...config.delivery };
+}
+
+export function getSuppressionConfig(config: TinkSESConfig): SuppressionConfig {
+  return { ...defaultSuppressionConfig, ...config.suppression };
+}
+
+export function getRateLimitConfig(config: TinkSESConfig): RateLimitConfig {
+  const rateLimits = { ...defaultRateLimitConfig, ...config.rateLimits };
+  const destinations: Record<string, Partial<DestinationLimits>> = {};
+  for (const [domain, limits] of Object.entries(rateLimits.destinations)) {
+    destinations[domain.toLowerCase()] = limits;
+  }
+  return {
+    ...rateLimits,
+    destination: { ...defaultRateLimitConfig.destination, ...config.rateLimits?.destination },
+    destinations,
+  };
+}
+
+/**
+ * Get the limits of a destination domain: the configured override, merged over the
+ * provider preset and the default destination limits
+ * @param rateLimits Rate limit configuration
+ * @param domain Recipient domain, lower case
+ */
+export function getDestinationLimits(
+  rateLimits: RateLimitConfig,
+  domain: string
+): DestinationLimits {
+  return {
+    ...rateLimits.destination,
+    ...providerLimitPresets[domain],
+    ...rateLimits.destinations[domain],
+  };
+}
+
+export function getHttpApiConfig(config: TinkSESConfig): HttpApiConfig {
+  return { ...defaultHttpApiConfig, ...config.http };
+}
+
+export function getQueueConfig(config: TinkSESConfig): QueueConfig {
+  return { ...defaultQueueConfig, ...config.queue };
+}
+
+/**
+ * Get all sending domains, the primary `domain` first
+ * @param config TinkSES configuration
+ */
+export function getDomainConfigs(config: TinkSESConfig): Record<string, DomainConfig> {
+  const domains: Record<string, DomainConfig> = {
+    [config.domain.toLowerCase()]: { dkim: config.dkim, ip: config.ip, dmarc: config.dmarc },
+  };
+  for (const [domain, domainConfig] of Object.entries(config.domains || {})) {
+    domains[domain.toLowerCase()] = domainConfig;
+  }
+  return domains;
+}
+
+/**
+ * Find the configuration of a sending domain
+ * @param config TinkSES configuration
+ * @param domain Domain name, case insensitive
+ * @returns Domain configuration or undefined if the domain is not allowed
+ */
+export function getDomainConfig(config: TinkSESConfig, domain: string): DomainConfig | undefined {
+  return getDomainConfigs(config)[domain.toLowerCase()];
+}
+
+/**
+ * Get the IP addresses allowed to send for a domain
+ */
+export function getDomainIps(config: TinkSESConfig, domain: string): string[] {
+  return getDomainConfig(config, domain)?.ip || config.ip;
+}
+
+export function getBounceConfig(config: TinkSESConfig): BounceConfig {
+  return { enabled: true, from: `MAILER-DAEMON@${config.domain}`, ...config.bounce };
+}
+
+export function getWebhookConfig(config: TinkSESConfig): WebhookConfig {
+  return { ...defaultWebhookConfig, ...config.webhooks };
+}
+
+export function getMetricsConfig(config: TinkSESConfig): MetricsConfig {
+  return { ...defaultMetricsConfig, ...config.metrics };
+}
+
+export function getDmarcReportConfig(config: TinkSESConfig): DmarcReportConfig {
+  return { ...defaultDmarcReportConfig, ...config.dmarcReports };
+}
+
+export function getLogConfig(config: TinkSESConfig): LogConfig {
+  return { ...defaultLogConfig, ...config.log };
+}
+
 export function loadConfig(configPath: string): TinkSESConfig | null {
   try {
     const configFile = fs.readFileSync(configPath, 'utf8');
     return JSON.parse(configFile);
   } catch (error) {
-    console.error(`Error reading config file at ${configPath}:`, (error as Error).message);
+    logger.error('Error reading config file', { path: configPath, error });
     return null;
   }
 }
@@ -0,0 +1,745 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { simpleParser, ParsedMail } from 'mailparser';
+import { SendMailOptions } from 'nodemailer';
+import MailComposer from 'nodemailer/lib/mail-composer/index.js';
+import SMTPConnection from 'nodemailer/lib/smtp-connection/index.js';
+import {
+  DeliveryModeConfig,
+  DkimConfig,
+  DkimKey,
+  getDeliveryModeConfig,
+  getDestinationLimits,
+  getDomainConfig,
+  getOutboundConfig,
+  getOutboundTlsConfig,
+  getRateLimitConfig,
+  getSmarthost,
+  OutboundAddress,
+  RateLimitConfig,
+  SmarthostConfig,
+  TinkSESConfig,
+} from './config.js';
+import { getFromDomain, prependHeaders } from './message.js';
+import { DkimSigningKey, getDkimKeyType, signDkim } from './dkim.js';
+import { MxHost, MxResolver } from './mx-resolver.js';
+import { Logger, logger } from './logger.js';
+import { dkimSigningErrors } from './metrics.js';
+import { DomainTlsPolicy, mxMatchesPatterns, TlsPolicyResolver } from './tls-policy.js';
+import { SentMessage, SmtpConnectionPool } from './smtp-pool.js';
+import { getIpPool, orderDestinationAddresses, SourceAddressSelector } from './ip-pool.js';
+
+export interface DeliveryEnvelope {
+  from: string;
+  to: string[];
+}
+
+export interface TlsInfo {
+  version: string;
+  cipher: string;
+  /** Whether the certificate was verified */
+  authorized: boolean;
+}
+
+export interface RecipientResult {
+  address: string;
+  /** `deferred` is retried later, `failed` is permanent */
+  status: 'delivered' | 'deferred' | 'failed';
+  response: string;
+  responseCode?: number;
+  /** RFC 3463 enhanced status code, e.g. 5.1.1 */
+  enhancedStatus?: string;
+  remoteMta?: string;
+  /** The reply rejected the recipient itself at RCPT TO, not the whole transaction */
+  recipientRejected?: boolean;
+  tls?: TlsInfo;
+  /** Catch-all address of the redirect mode the result is about, not the recipient */
+  redirectedTo?: string;
+}
+
+/**
+ * Error thrown by nodemailer when the remote server replied with an error
+ */
+interface SmtpError extends Error {
+  /** Nodemailer error type, e.g. ECONNECTION or EENVELOPE */
+  code?: string;
+  response?: string;
+  responseCode?: number;
+  recipient?: string;
+  rejectedErrors?: SmtpError[];
+}
+
+/**
+ * Parse the basic and enhanced status codes of an SMTP reply
+ * @param response SMTP reply line, e.g. "550 5.1.1 User unknown"
+ */
+export function parseSmtpReply(response: string): { code?: number; enhancedStatus?: string } {
+  const match = /^([2-5]\d\d)(?:[ -]([2-5]\.\d{1,3}\.\d{1,3}))?/.exec(response.trim());
+  if (!match) return {};
+  return { code: Number(match[1]), enhancedStatus: match[2] };
+}
+
+/**
+ * Build the result of a failed delivery. 5xx replies are permanent, anything else
+ * (4xx replies, network and DNS errors) is retried.
+ */
+function failureResult(address: string, error: unknown, remoteMta?: string): RecipientResult {
+  const smtpError = error as SmtpError;
+  const response = smtpError.response || (error instanceof Error ? error.message : String(error));
+  const { code, enhancedStatus } = parseSmtpReply(smtpError.response || '');
+  const responseCode = smtpError.responseCode || code;
+
+  return {
+    address,
+    status: responseCode && responseCode >= 500 ? 'failed' : 'deferred',
+    response,
+    responseCode,
+    enhancedStatus,
+    remoteMta,
+    recipientRejected: !!smtpError.recipient,
+  };
+}
+
+/**
+ * Get the signing keys of a domain, its key and the secondary key if configured
+ * @param domain Signing domain
+ * @param dkimConfig DKIM configuration of the domain
+ */
+export function createDkimKeys(domain: string, dkimConfig: DkimConfig): DkimSigningKey[] {
+  try {
+    return [dkimConfig, dkimConfig.secondary]
+      .filter((key): key is DkimKey => !!key?.privateKey)
+      .map(key => {
+        // Fail early on keys that cannot be loaded, they are skipped
+        getDkimKeyType(key.privateKey);
+        return { domain, selector: key.selector, privateKey: key.privateKey };
+      });
+  } catch (error) {
+    dkimSigningErrors.inc();
+    logger.error('Error loading DKIM private key', { component: 'delivery', error });
+    return [];
+  }
+}
+
+/**
+ * Get nodemailer DKIM options of the key of a domain, the secondary key is not included.
+ * Part of the `tinkses/server` entry point, TinkSES itself signs with createDkimKeys.
+ * @returns The options, or undefined if the domain has no usable key
+ */
+export function createDkimSigner(domain: string, dkimConfig: DkimConfig) {
+  const [key] = createDkimKeys(domain, { ...dkimConfig, secondary: undefined });
+  return key && { domainName: key.domain, keySelector: key.selector, privateKey: key.privateKey };
+}
+
+/**
+ * Get the name outbound connections introduce themselves with: the name of the source
+ * address, of the sending domain, `outbound.ehloName` or else the envelope sender domain
+ * @param config TinkSES configuration
+ * @param envelopeFrom Envelope sender, the primary domain is used for null senders
+ * @param source Local address the connection is bound to
+ */
+export function getEhloName(
+  config: TinkSESConfig,
+  envelopeFrom: string,
+  source?: OutboundAddress
+): string {
+  const domain = envelopeFrom.split('@')[1] || config.domain;
+  return (
+    source?.ehloName ||
+    getDomainConfig(config, domain)?.ehloName ||
+    getOutboundConfig(config).ehloName ||
+    domain
+  );
+}
+
+/**
+ * Get the domain a message is DKIM signed for, its From header domain if it is configured
+ * @param config TinkSES configuration
+ * @param message Raw message
+ * @param envelopeFrom Envelope sender, used when the From header domain is not configured
+ */
+export function getDkimSigningDomain(
+  config: TinkSESConfig,
+  message: Buffer,
+  envelopeFrom: string
+): string {
+  const candidates = [getFromDomain(message), envelopeFrom.split('@')[1]];
+  const domain = candidates.find(candidate => candidate && getDomainConfig(config, candidate));
+  return domain ? domain.toLowerCase() : config.domain;
+}
+
+/**
+ * Get the DKIM signing keys for a message, the keys of its From header domain
+ * @param config TinkSES configuration
+ * @param message Raw message
+ * @param envelopeFrom Envelope sender, used when the From header domain is not configured
+ */
+export function createMessageDkimKeys(
+  config: TinkSESConfig,
+  message: Buffer,
+  envelopeFrom: string
+): DkimSigningKey[] {
+  const domain = getDkimSigningDomain(config, message, envelopeFrom);
+  return createDkimKeys(domain, getDomainConfig(config, domain)?.dkim || config.dkim);
+}
+
+/**
+ * Flatten an address header from mailparser into a comma separated string
+ */
+function flattenAddresses(field: ParsedMail['to']): string {
+  if (!field) return '';
+  if (Array.isArray(field)) {
+    return field.map(addr => addr.text).join(', ');
+  }
+  return field.text || field.value.map(addr => addr.address || '').join(', ');
+}
+
+/**
+ * Re-compose a received message into nodemailer options
+ * @param parsedMail Parsed message
+ * @param envelope Envelope of the delivery
+ * @param messageId Message-ID to use for the outgoing message
+ */
+export function composeMailOptions(
+  parsedMail: ParsedMail,
+  envelope: DeliveryEnvelope,
+  messageId: string
+): SendMailOptions {
+  return {
+    from: envelope.from,
+    to: flattenAddresses(parsedMail.to) || envelope.to.join(', '),
+    cc: flattenAddresses(parsedMail.cc),
+    bcc: flattenAddresses(parsedMail.bcc),
+    subject: parsedMail.subject || '(No Subject)',
+    [parsedMail.html ? 'html' : 'text']: parsedMail.html || parsedMail.text || '(no content)',
+    attachments: (parsedMail.attachments as unknown as SendMailOptions['attachments']) || [],
+    messageId: messageId,
+  };
+}
+
+/**
+ * Build a raw message from nodemailer options
+ */
+export function buildMessage(options: SendMailOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    new MailComposer(options)
+      .compile()
+      .build((err, message) => (err ? reject(err) : resolve(message)));
+  });
+}
+
+/**
+ * SMTP connection options enforcing a TLS policy
+ * @param policy TLS policy of the destination domain
+ * @param mxHost MX host name, used to verify the certificate
+ */
+function tlsConnectionOptions(policy: DomainTlsPolicy, mxHost: string): SMTPConnection.Options {
+  switch (policy.mode) {
+    case 'require':
+      return {
+        requireTLS: true,
+        tls: { rejectUnauthorized: true, servername: mxHost, minVersion: 'TLSv1.2' },
+      };
+    case 'none':
+      return { ignoreTLS: true };
+    default:
+      return { opportunisticTLS: true, tls: { rejectUnauthorized: false, servername: mxHost } };
+  }
+}
+
+/**
+ * Whether an error was the reply to the mail transaction itself (MAIL FROM, RCPT TO or
+ * DATA). Other errors happened while connecting and the next address is tried.
+ */
+function isTransactionError(error: unknown): boolean {
+  const code = (error as SmtpError).code;
+  return code === 'EENVELOPE' || code === 'EMESSAGE';
+}
+
+/**
+ * Build the results of a message accepted by the remote server, some recipients may have
+ * been rejected
+ * @param to Recipients of the transaction
+ * @param sent Reply and TLS parameters of the transaction
+ * @param remoteMta Host the message was sent to
+ */
+function sentResults(to: string[], sent: SentMessage, remoteMta: string): RecipientResult[] {
+  const rejectedErrors: SmtpError[] = sent.info.rejectedErrors || [];
+  const { code, enhancedStatus } = parseSmtpReply(sent.info.response);
+
+  return to.map(address => {
+    const rejection = rejectedErrors.find(error => error.recipient === address);
+    if (rejection) {
+      return failureResult(address, rejection, remoteMta);
+    }
+    return {
+      address,
+      status: 'delivered',
+      response: sent.info.response,
+      responseCode: code,
+      enhancedStatus,
+      remoteMta,
+      tls: sent.tls,
+    };
+  });
+}
+
+/**
+ * Build the results of a mail transaction the remote server rejected
+ */
+function transactionFailureResults(
+  to: string[],
+  error: unknown,
+  remoteMta: string
+): RecipientResult[] {
+  // When every recipient was rejected the error carries the individual replies
+  const rejectedErrors = (error as SmtpError).rejectedErrors || [];
+  return to.map(address =>
+    failureResult(
+      address,
+      rejectedErrors.find(rejection => rejection.recipient === address) || error,
+      remoteMta
+    )
+  );
+}
+
+/**
+ * Mail hosts a recipient domain is delivered to
+ */
+interface DeliveryRoute {
+  /** MX hosts of the domain in the order they are tried */
+  mxHosts: MxHost[];
+  /** MX hosts allowed by the MTA-STS policy of the domain */
+  allowedHosts: MxHost[];
+  tlsPolicy: DomainTlsPolicy;
+  /** Messages after which a connection to the route is closed */
+  maxMessagesPerConnection: number;
+}
+
+/**
+ * Key of a route, domains with the same key are delivered in one transaction
+ */
+function routeKey(route: DeliveryRoute): string {
+  const hosts = route.allowedHosts.map(mx => mx.exchange.toLowerCase()).sort();
+  return `${route.tlsPolicy.mode}|${hosts.join(',')}`;
+}
+
+/**
+ * Delivers queued messages to the MX hosts of their recipient domains
+ */
+export class DeliveryAgent {
+  private config: TinkSESConfig;
+  private tlsPolicies: TlsPolicyResolver;
+  private mxResolver: MxResolver;
+  private rateLimits: RateLimitConfig;
+  private modeConfig: DeliveryModeConfig;
+  private pool = new SmtpConnectionPool();
+  private sourceAddresses = new SourceAddressSelector();
+
+  /**
+   * @param config TinkSES configuration
+   * @param tlsPolicies Resolver for outbound TLS policies, created from the config if omitted
+   * @param mxResolver Resolver for mail hosts and their addresses
+   */
+  constructor(config: TinkSESConfig, tlsPolicies?: TlsPolicyResolver, mxResolver?: MxResolver) {
+    this.config = config;
+    this.tlsPolicies = tlsPolicies || new TlsPolicyResolver(getOutboundTlsConfig(config));
+    this.mxResolver = mxResolver || new MxResolver();
+    this.rateLimits = getRateLimitConfig(config);
+    this.modeConfig = getDeliveryModeConfig(config);
+  }
+
+  /**
+   * Deliver a queued message according to the delivery mode
+   * @param envelope Envelope sender and the recipients to deliver to
+   * @param message Raw message as received from the client
+   * @param messageId Message-ID assigned when the message was accepted
+   * @param messageLog Logger of the queued message
+   * @returns Delivery result for every recipient
+   */
+  public async deliver(
+    envelope: DeliveryEnvelope,
+    message: Buffer,
+    messageId: string,
+    messageLog: Logger = logger
+  ): Promise<RecipientResult[]> {
+    const log = messageLog.child({ component: 'delivery' });
+
+    // Bounces are generated by TinkSES itself and are always relayed as is
+    const recompose = this.config.relayMode === 'recompose' && envelope.from;
+    const composed = recompose
+      ? await buildMessage(composeMailOptions(await simpleParser(message), envelope, messageId))
+      : message;
+
+    // Re-composed messages use the envelope sender as From
+    const dkimKeys = createMessageDkimKeys(
+      this.config,
+      recompose ? Buffer.alloc(0) : message,
+      envelope.from
+    );
+    let signed: Buffer;
+    try {
+      signed = signDkim(composed, dkimKeys);
+    } catch (error) {
+      dkimSigningErrors.inc();
+      log.error('Unable to DKIM sign message', { error });
+      throw error;
+    }
+
+    switch (this.modeConfig.mode) {
+      case 'sink':
+        return this.writeToSink(envelope, signed, log);
+      case 'relay':
+        return this.relay(envelope, signed, log);
+      case 'redirect': {
+        const redirectTo = this.modeConfig.redirectTo;
+        if (!redirectTo) {
+          throw new Error('No redirectTo address configured for the redirect delivery mode');
+        }
+        const [result] = await this.deliverToDestinations(
+          { from: envelope.from, to: [redirectTo] },
+          signed,
+          log
+        );
+        log.info('Recipients redirected', { to: envelope.to, redirectTo });
+        return envelope.to.map(address => ({ ...result, address, redirectedTo: redirectTo }));
+      }
+      default:
+        return this.deliverToDestinations(envelope, signed, log);
+    }
+  }
+
+  /**
+   * Close idle connections
+   */
+  public close(): void {
+    this.pool.close();
+  }
+
+  /**
+   * Deliver a message to the smarthosts or MX hosts of its recipient domains. Domains
+   * sharing a smarthost or the same MX hosts are delivered together in one mail transaction.
+   * @param envelope Envelope sender and the recipients to deliver to
+   * @param message Signed message
+   * @param log Logger of the delivery
+   */
+  private async deliverToDestinations(
+    envelope: DeliveryEnvelope,
+    message: Buffer,
+    log: Logger
+  ): Promise<RecipientResult[]> {
+    const recipientsByDomain: Record<string, string[]> = {};
+    const smarthostRecipients = new Map<SmarthostConfig, string[]>();
+    for (const address of envelope.to) {
+      const domain = address.split('@')[1].toLowerCase();
+      const smarthost = getSmarthost(this.config, domain);
+      if (smarthost) {
+        smarthostRecipients.set(smarthost, [
+          ...(smarthostRecipients.get(smarthost) || []),
+          address,
+        ]);
+      } else {
+        (recipientsByDomain[domain] ??= []).push(address);
+      }
+    }
+    const smarthostResults = Promise.all(
+      [...smarthostRecipients].map(([smarthost, to]) =>
+        this.sendToSmarthost(smarthost, { from: envelope.from, to }, message, log)
+      )
+    );
+
+    // Group the domains by route
+    const results: RecipientResult[] = [];
+    const batches = new Map<string, { route: DeliveryRoute; domains: string[]; to: string[] }>();
+    await Promise.all(
+      Object.entries(recipientsByDomain).map(async ([domain, to]) => {
+        let route: DeliveryRoute;
+        try {
+          route = await this.resolveRoute(domain);
+        } catch (error) {
+          results.push(...to.map(address => failureResult(address, error)));
+          return;
+        }
+
+        if (route.allowedHosts.length === 0) {
+          const error = new Error(`No MX of ${domain} is allowed by its MTA-STS policy`);
+          const remoteMta = route.mxHosts[0].exchange;
+          results.push(...to.map(address => failureResult(address, error, remoteMta)));
+          return;
+        }
+
+        const key = routeKey(route);
+        const batch = batches.get(key);
+        if (batch) {
+          batch.domains.push(domain);
+          batch.to.push(...to);
+          batch.route.maxMessagesPerConnection = Math.min(
+            batch.route.maxMessagesPerConnection,
+            route.maxMessagesPerConnection
+          );
+        } else {
+          batches.set(key, { route, domains: [domain], to: [...to] });
+        }
+      })
+    );
+
+    const batchResults = await Promise.all(
+      [...batches.values()].map(({ route, domains, to }) =>
+        this.deliverToRoute(
+          route,
+          { from: envelope.from, to },
+          message,
+          log.child({ domain: domains.join(',') })
+        )
+      )
+    );
+    return results.concat(...batchResults, ...(await smarthostResults));
+  }
+
+  /**
+   * Write a message to the sink directory instead of delivering it. The envelope is kept
+   * in `Return-Path` and `X-Envelope-To` headers.
+   */
+  private async writeToSink(
+    envelope: DeliveryEnvelope,
+    message: Buffer,
+    log: Logger
+  ): Promise<RecipientResult[]> {
+    const sinkDir = path.resolve(this.modeConfig.sinkDir);
+    const file = path.join(sinkDir, `${Date.now()}-${crypto.randomBytes(6).toString('hex')}.eml`);
+    const content = prependHeaders(message, [
+      `Return-Path: <${envelope.from}>`,
+      `X-Envelope-To: ${envelope.to.join(', ')}`,
+    ]);
+
+    await fs.promises.mkdir(sinkDir, { recursive: true });
+    await fs.promises.writeFile(file, content);
+    log.info('Message written to sink', { file, to: envelope.to });
+
+    return envelope.to.map(address => ({
+      address,
+      status: 'delivered',
+      response: `250 Message written to ${file}`,
+      responseCode: 250,
+    }));
+  }
+
+  /**
+   * Send a message with all its recipients to the relay host of the `relay` mode
+   */
+  private relay(envelope: DeliveryEnvelope, message: Buffer, log: Logger) {
+    const { relayHost, relayPort } = this.modeConfig;
+    return this.sendToHost(
+      relayHost,
+      relayPort,
+      { opportunisticTLS: true, tls: { rejectUnauthorized: false } },
+      envelope,
+      message,
+      log
+    );
+  }
+
+  /**
+   * Hand a message to a smarthost, which delivers it to the recipients
+   */
+  private sendToSmarthost(
+    smarthost: SmarthostConfig,
+    envelope: DeliveryEnvelope,
+    message: Buffer,
+    log: Logger
+  ) {
+    const security = smarthost.security || (smarthost.port === 465 ? 'tls' : 'starttls');
+    const tlsOptions = { rejectUnauthorized: smarthost.rejectUnauthorized !== false };
+    const options: Record<typeof security, SMTPConnection.Options> = {
+      tls: { secure: true, tls: tlsOptions },
+      starttls: { requireTLS: true, tls: tlsOptions },
+      none: { ignoreTLS: true },
+    };
+
+    return this.sendToHost(
+      smarthost.host,
+      smarthost.port,
+      options[security],
+      envelope,
+      message,
+      log,
+      smarthost.auth
+    );
+  }
+
+  /**
+   * Send a message with all its recipients to a fixed host. Failures before the mail
+   * transaction, like a refused login, are a problem of the host and are always retried.
+   * @param host Host name or address
+   * @param port Port
+   * @param connectionOptions TLS options of the connection
+   * @param envelope Envelope sender and the recipients
+   * @param message Signed message
+   * @param log Logger of the delivery
+   * @param credentials Credentials to log in with
+   */
+  private async sendToHost(
+    host: string,
+    port: number,
+    connectionOptions: SMTPConnection.Options,
+    envelope: DeliveryEnvelope,
+    message: Buffer,
+    log: Logger,
+    credentials?: SMTPConnection.Credentials
+  ): Promise<RecipientResult[]> {
+    const ehloName = getEhloName(this.config, envelope.from);
+    log.info('Sending message to relay', { host, port, to: envelope.to });
+
+    try {
+      const sent = await this.pool.send(
+        [host, port, ehloName, credentials?.user].join('|'),
+        { host, port, name: ehloName, ...connectionOptions },
+        envelope,
+        message,
+        this.rateLimits.destination.maxMessagesPerConnection,
+        credentials
+      );
+      return sentResults(envelope.to, sent, host);
+    } catch (error) {
+      if (isTransactionError(error)) {
+        return transactionFailureResults(envelope.to, error, host);
+      }
+      log.warn('Unable to send message to relay', { host, port, error });
+      return envelope.to.map(address => ({
+        ...failureResult(address, error, host),
+        status: 'deferred',
+      }));
+    }
+  }
+
+  /**
+   * Look up the mail hosts and the TLS policy of a recipient domain
+   */
+  private async resolveRoute(domain: string): Promise<DeliveryRoute> {
+    const mxHosts = await this.mxResolver.resolveMxHosts(domain);
+    const tlsPolicy = await this.tlsPolicies.getPolicy(domain);
+    return {
+      mxHosts,
+      allowedHosts: mxHosts.filter(
+        mx => !tlsPolicy.mxPatterns || mxMatchesPatterns(mx.exchange, tlsPolicy.mxPatterns)
+      ),
+      tlsPolicy,
+      maxMessagesPerConnection: getDestinationLimits(this.rateLimits, domain)
+        .maxMessagesPerConnection,
+    };
+  }
+
+  /**
+   * Deliver a message to the first MX host and address of a route that accepts a connection
+   * @param route Route of the recipient domains
+   * @param envelope Envelope sender and the recipients of the route
+   * @param message Signed message
+   * @param log Logger of the delivery
+   */
+  private async deliverToRoute(
+    route: DeliveryRoute,
+    envelope: DeliveryEnvelope,
+    message: Buffer,
+    log: Logger
+  ): Promise<RecipientResult[]> {
+    const { allowedHosts, tlsPolicy } = route;
+
+    const senderDomain = envelope.from.split('@')[1] || this.config.domain;
+    const ipPool = getIpPool(this.config, senderDomain);
+    const { addressFamily } = getOutboundConfig(this.config);
+    const mxPort = 25;
+
+    let lastError: unknown;
+    let lastHost: string | undefined;
+
+    for (const mx of allowedHosts) {
+      let addresses: string[];
+      try {
+        addresses = await this.mxResolver.resolveAddresses(mx.exchange);
+      } catch (error) {
+        log.warn('Address lookup failed', { mx: mx.exchange, error });
+        lastError = error;
+        lastHost = mx.exchange;
+        continue;
+      }
+      if (addresses.length === 0) {
+        log.warn('MX has no address records', { mx: mx.exchange });
+        lastError = new Error(`MX ${mx.exchange} has no address records`);
+        lastHost = mx.exchange;
+        continue;
+      }
+
+      const usableAddresses = orderDestinationAddresses(addresses, addressFamily, ipPool);
+      if (usableAddresses.length === 0) {
+        log.warn('MX has no addresses of a usable family', { mx: mx.exchange, addresses });
+        lastError = new Error(
+          `MX ${mx.exchange} has no addresses reachable from the configured source addresses`
+        );
+        lastHost = mx.exchange;
+        continue;
+      }
+
+      for (const ip of usableAddresses) {
+        const source = ipPool && this.sourceAddresses.select(ipPool, ip);
+        const ehloName = getEhloName(this.config, envelope.from, source);
+        log.info('Connecting to MX', {
+          mx: mx.exchange,
+          ip,
+          port: mxPort,
+          localAddress: source?.address,
+          tlsPolicy: tlsPolicy.mode,
+          tlsPolicySource: tlsPolicy.source,
+        });
+
+        try {
+          const sent = await this.pool.send(
+            [mx.exchange.toLowerCase(), ip, mxPort, source?.address, ehloName, tlsPolicy.mode].join(
+              '|'
+            ),
+            {
+              host: ip,
+              port: mxPort,
+              localAddress: source?.address,
+              name: ehloName,
+              ...tlsConnectionOptions(tlsPolicy, mx.exchange),
+            },
+            envelope,
+            message,
+            route.maxMessagesPerConnection
+          );
+          const { tls } = sent;
+          const rejected = sent.info.rejectedErrors?.length || 0;
+
+          log.info('Message transferred', {
+            mx: mx.exchange,
+            recipients: envelope.to.length - rejected,
+            tls: tls ? `${tls.version} ${tls.cipher}` : 'none',
+            tlsVerified: tls?.authorized,
+          });
+
+          return sentResults(envelope.to, sent, mx.exchange);
+        } catch (error) {
+          if (isTransactionError(error)) {
+            return transactionFailureResults(envelope.to, error, mx.exchange);
+          }
+
+          log.warn('Unable to deliver to MX, trying next address', {
+            mx: mx.exchange,
+            ip,
+            error,
+          });
+          lastError = error;
+          lastHost = mx.exchange;
+        }
+      }
+    }
+
+    // Every address failed before the mail transaction. Even 5xx greetings and EHLO replies,
+    // e.g. blocklist banners, are about the connection and not the recipients: retry later
+    return envelope.to.map(address => ({
+      ...failureResult(address, lastError, lastHost),
+      status: 'deferred',
+    }));
+  }
+}
@@ -0,0 +1,93 @@
+import crypto from 'crypto';
+import { DkimKey, DkimKeyConfig } from './config.js';
+import { generateDkimKeys } from './dns-creation.js';
+import { verifyDkimRecord, VerificationResult } from './dns-verification.js';
+import { getDkimKeyType } from './dkim.js';
+
+/**
+ * Days the DNS record of a replaced key is kept, so messages signed with it before the
+ * switch still verify, e.g. when receivers check them late or they are forwarded
+ */
+const RETIRED_RECORD_DAYS = 7;
+
+/**
+ * Get a date based selector for a new key, e.g. `20261019`
+ * @param current Selectors already in use
+ */
+export function generateRotationSelector(current: string[], now = new Date()): string {
+  const base = now.toISOString().slice(0, 10).replace(/-/g, '');
+  let selector = base;
+  for (let i = 2; current.includes(selector); i++) {
+    selector = `${base}-${i}`;
+  }
+  return selector;
+}
+
+/**
+ * Generate the key to rotate to, of the same type and size as the current key
+ * @param current Current key
+ * @param selector Selector of the new key
+ * @param outputDir Directory of the configuration
+ */
+export function generateRotationKey(
+  current: DkimKey,
+  selector: string,
+  outputDir: string
+): DkimKey {
+  if (!current.publicKey) {
+    return { selector, ...generateDkimKeys(outputDir, selector) };
+  }
+
+  const keyType = getDkimKeyType(current.publicKey);
+  const rsaKeySize = crypto.createPublicKey(current.publicKey).asymmetricKeyDetails?.modulusLength;
+  return { selector, ...generateDkimKeys(outputDir, selector, keyType, rsaKeySize) };
+}
+
+/**
+ * Add a new key to rotate to. Messages are signed with the current key until the rotation
+ * is completed.
+ * @param dkim Key configuration of the domain, updated in place
+ * @param key Selector and key pair of the new key
+ */
+export function startDkimRotation(dkim: DkimKeyConfig, key: DkimKey): void {
+  if (dkim.next) {
+    throw new Error(`A rotation to selector '${dkim.next.selector}' is already in progress`);
+  }
+  if (key.selector === dkim.selector) {
+    throw new Error(`Selector '${key.selector}' is the current selector`);
+  }
+  dkim.next = { ...key, createdAt: new Date().toISOString() };
+}
+
+/**
+ * Switch to the new key of a rotation if its DNS record is published with the same key
+ * @param domain Sending domain
+ * @param dkim Key configuration of the domain, updated in place
+ * @returns Result of the check of the new record, the key is switched if it is valid
+ */
+export async function completeDkimRotation(
+  domain: string,
+  dkim: DkimKeyConfig
+): Promise<VerificationResult> {
+  const next = dkim.next;
+  if (!next) {
+    throw new Error('No rotation in progress');
+  }
+
+  const result = await verifyDkimRecord(domain, next.selector, next.publicKey);
+  if (!result.isValid) return result;
+
+  const retiredAt = new Date();
+  dkim.previous = {
+    selector: dkim.selector,
+    retiredAt: retiredAt.toISOString(),
+    removeAfter: new Date(
+      retiredAt.getTime() + RETIRED_RECORD_DAYS * 24 * 60 * 60 * 1000
+    ).toISOString(),
+  };
+  dkim.selector = next.selector;
+  dkim.privateKey = next.privateKey;
+  dkim.publicKey = next.publicKey;
+  delete dkim.next;
+  return result;
+}
@@ -0,0 +1,292 @@
+import crypto from 'crypto';
+import { getBody, getHeaderBlock, prependHeaders } from './message.js';
+
+/**
+ * `rsa` keys sign with RSA-SHA256, `ed25519` keys with Ed25519-SHA256 (RFC 8463)
+ */
+export type DkimKeyType = 'rsa' | 'ed25519';
+
+export interface DkimSigningKey {
+  /** Signing domain, the `d=` tag */
+  domain: string;
+  selector: string;
+  /** PEM encoded private key */
+  privateKey: string;
+}
+
+/**
+ * Headers signed when present, the list of RFC 4871 section 5.5
+ */
+const SIGNED_HEADERS = [
+  'from',
+  'sender',
+  'reply-to',
+  'subject',
+  'date',
+  'message-id',
+  'to',
+  'cc',
+  'mime-version',
+  'content-type',
+  'content-transfer-encoding',
+  'content-id',
+  'content-description',
+  'resent-date',
+  'resent-from',
+  'resent-sender',
+  'resent-to',
+  'resent-cc',
+  'resent-message-id',
+  'in-reply-to',
+  'references',
+  'list-id',
+  'list-help',
+  'list-unsubscribe',
+  'list-subscribe',
+  'list-post',
+  'list-owner',
+  'list-archive',
+];
+
+/**
+ * Maximum length of the lines of a generated DKIM-Signature header
+ */
+const LINE_LENGTH = 76;
+
+/**
+ * Get the type of a PEM encoded public or private key
+ */
+export function getDkimKeyType(key: string): DkimKeyType {
+  const type = key.includes('PRIVATE KEY')
+    ? crypto.createPrivateKey(key).asymmetricKeyType
+    : crypto.createPublicKey(key).asymmetricKeyType;
+  if (type !== 'rsa' && type !== 'ed25519') {
+    throw new Error(`Unsupported DKIM key type: ${type}`);
+  }
+  return type;
+}
+
+/**
+ * Parse a DKIM tag list, e.g. a DNS key record or a DKIM-Signature header value
+ * (RFC 6376 section 3.2)
+ * @returns Values by tag name, without whitespace
+ */
+export function parseDkimTags(tagList: string): Record<string, string> {
+  const tags: Record<string, string> = {};
+  for (const spec of tagList.split(';')) {
+    const separator = spec.indexOf('=');
+    if (separator === -1) continue;
+    tags[spec.slice(0, separator).trim()] = spec.slice(separator + 1).replace(/\s/g, '');
+  }
+  return tags;
+}
+
+/**
+ * Create a public key from the `p=` value of a DKIM record
+ * @param publicKeyData Base64 encoded key
+ * @param keyType The `k=` value of the record
+ */
+function createDkimPublicKey(publicKeyData: string, keyType: DkimKeyType): crypto.KeyObject {
+  if (keyType === 'ed25519') {
+    const x = Buffer.from(publicKeyData, 'base64').toString('base64url');
+    return crypto.createPublicKey({ key: { kty: 'OKP', crv: 'Ed25519', x }, format: 'jwk' });
+  }
+  return crypto.createPublicKey({
+    key: Buffer.from(publicKeyData, 'base64'),
+    format: 'der',
+    type: 'spki',
+  });
+}
+
+/**
+ * Canonicalize a header line with the `relaxed` algorithm (RFC 6376 section 3.4.2)
+ */
+function relaxedHeader(line: string): string {
+  const colon = line.indexOf(':');
+  const name = line.slice(0, colon).trim().toLowerCase();
+  const value = line
+    .slice(colon + 1)
+    .replace(/\r?\n/g, '')
+    .replace(/[ \t]+/g, ' ')
+    .trim();
+  return `${name}:${value}`;
+}
+
+/**
+ * Canonicalize a message body with the `relaxed` algorithm (RFC 6376 section 3.4.4)
+ */
+function relaxedBody(body: Buffer): Buffer {
+  const lines = body
+    .toString('latin1')
+    .split(/\r?\n/)
+    .map(line => line.replace(/[ \t]+/g, ' ').replace(/ $/, ''));
+  while (lines.length > 0 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return Buffer.from(lines.map(line => `${line}\r\n`).join(''), 'latin1');
+}
+
+/**
+ * Build a DKIM-Signature header, folded between tags and inside the `h=` and `b=` values
+ * @param tags Tags without the signature
+ * @param signature Base64 encoded signature, omit for the header that is signed
+ */
+function buildSignatureHeader(tags: string[], signature = ''): string {
+  let header = 'DKIM-Signature:';
+  let lineLength = header.length;
+  const append = (text: string, separator: string) => {
+    if (lineLength + separator.length + text.length > LINE_LENGTH && lineLength > 1) {
+      header += '\r\n ';
+      lineLength = 1;
+    } else {
+      header += separator;
+      lineLength += separator.length;
+    }
+    header += text;
+    lineLength += text.length;
+  };
+
+  for (const tag of tags) {
+    // A header list may be folded after every colon
+    tag
+      .split(/(?<=:)/)
+      .forEach((part, i, parts) =>
+        append(i === parts.length - 1 ? `${part};` : part, i === 0 ? ' ' : '')
+      );
+  }
+
+  // The signature starts on the line of its tag, it is split where the line is full
+  append(`b=${signature.slice(0, 1)}`, ' ');
+  let rest = signature.slice(1);
+  while (rest) {
+    const length = Math.max(LINE_LENGTH - lineLength, 1);
+    append(rest.slice(0, length), '');
+    rest = rest.slice(length);
+  }
+  return header;
+}
+
+/**
+ * Create the DKIM-Signature header of a message
+ * @param headerLines Unfolded header lines of the message
+ * @param bodyHash Base64 encoded SHA-256 hash of the canonicalized body
+ * @param key Signing key
+ */
+function createSignature(headerLines: string[], bodyHash: string, key: DkimSigningKey): string {
+  const keyType = getDkimKeyType(key.privateKey);
+
+  // The last occurrence of a header is signed, like verifiers select them
+  const names: string[] = [];
+  const signedHeaders: string[] = [];
+  for (const name of SIGNED_HEADERS) {
+    const line = [...headerLines]
+      .reverse()
+      .find(header => header.slice(0, header.indexOf(':')).trim().toLowerCase() === name);
+    if (line) {
+      names.push(name);
+      signedHeaders.push(`${relaxedHeader(line)}\r\n`);
+    }
+  }
+
+  const tags = [
+    'v=1',
+    `a=${keyType}-sha256`,
+    'c=relaxed/relaxed',
+    `d=${key.domain}`,
+    `s=${key.selector}`,
+    `t=${Math.floor(Date.now() / 1000)}`,
+    `bh=${bodyHash}`,
+    `h=${names.join(':')}`,
+  ];
+  const data = Buffer.from(
+    signedHeaders.join('') + relaxedHeader(buildSignatureHeader(tags)),
+    'latin1'
+  );
+
+  // Ed25519-SHA256 signs the SHA-256 hash of the data (RFC 8463 section 3)
+  const signature =
+    keyType === 'ed25519'
+      ? crypto.sign(null, crypto.createHash('sha256').update(data).digest(), key.privateKey)
+      : crypto.sign('sha256', data, key.privateKey);
+  return buildSignatureHeader(tags, signature.toString('base64'));
+}
+
+/**
+ * Split the header block of a raw message into unfolded header lines
+ */
+function getHeaderLines(message: Buffer): string[] {
+  // Headers are kept byte for byte, they may contain UTF-8
+  return getHeaderBlock(message, 'latin1')
+    .split(/\r?\n(?![ \t])/)
+    .filter(line => line.includes(':'));
+}
+
+/**
+ * Hash the relaxed canonicalized body of a raw message
+ * @returns Base64 encoded SHA-256 hash
+ */
+function hashBody(message: Buffer): string {
+  return crypto
+    .createHash('sha256')
+    .update(relaxedBody(getBody(message)))
+    .digest('base64');
+}
+
+/**
+ * Sign a message with DKIM, with one signature per key
+ * @param message Raw message
+ * @param keys Signing keys, e.g. an RSA and an Ed25519 key under different selectors
+ * @returns The message with the DKIM-Signature headers prepended
+ */
+export function signDkim(message: Buffer, keys: DkimSigningKey[]): Buffer {
+  if (keys.length === 0) return message;
+
+  const headerLines = getHeaderLines(message);
+  const bodyHash = hashBody(message);
+  return prependHeaders(
+    message,
+    keys.map(key => createSignature(headerLines, bodyHash, key))
+  );
+}
+
+/**
+ * Verify the first DKIM signature of a message. Only the `relaxed/relaxed` canonicalization
+ * used by {@link signDkim} is supported.
+ * @param message Signed message
+ * @param publicKeyData The `p=` value of the DKIM record of the signing key
+ * @param keyType The `k=` value of the DKIM record
+ * @returns An error message, or undefined if the signature is valid
+ */
+export function verifyDkimSignature(
+  message: Buffer,
+  publicKeyData: string,
+  keyType: DkimKeyType
+): string | undefined {
+  const headerLines = getHeaderLines(message);
+  const signatureLine = headerLines.find(line => /^dkim-signature\s*:/i.test(line));
+  if (!signatureLine) return 'The message has no DKIM-Signature header';
+
+  const tags = parseDkimTags(signatureLine.slice(signatureLine.indexOf(':') + 1));
+  if (tags.c !== 'relaxed/relaxed') return `Unsupported canonicalization: ${tags.c}`;
+  if (tags.a !== `${keyType}-sha256`) return `Signature algorithm ${tags.a} does not match the key`;
+  if (tags.bh !== hashBody(message)) return 'The body hash does not match';
+
+  // Every listed header is taken from the bottom up, once per occurrence in the list
+  const remaining = headerLines.filter(line => line !== signatureLine);
+  const signedHeaders = (tags.h || '').split(':').map(name => {
+    const index = remaining
+      .map(line => line.slice(0, line.indexOf(':')).trim().toLowerCase())
+      .lastIndexOf(name.toLowerCase());
+    return index === -1 ? '' : `${relaxedHeader(remaining.splice(index, 1)[0])}\r\n`;
+  });
+  const unsignedLine = signatureLine.replace(/((?:^|;)\s*b=)[^;]*/, '$1');
+  const data = Buffer.from(signedHeaders.join('') + relaxedHeader(unsignedLine), 'latin1');
+
+  const publicKey = createDkimPublicKey(publicKeyData, keyType);
+  const signature = Buffer.from(tags.b || '', 'base64');
+  const valid =
+    keyType === 'ed25519'
+      ? crypto.verify(null, crypto.createHash('sha256').update(data).digest(), publicKey, signature)
+      : crypto.verify('sha256', data, publicKey, signature);
+  return valid ? undefined : 'The signature does not verify with the public key';
+}
@@ -0,0 +1,375 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { simpleParser } from 'mailparser';
+
+/**
+ * A row of an aggregate report, messages from one source with the same results
+ */
+export interface DmarcReportRecord {
+  sourceIp: string;
+  count: number;
+  /** What the receiver did with the messages: `none`, `quarantine` or `reject` */
+  disposition: string;
+  /** Aligned DKIM result */
+  dkim: 'pass' | 'fail';
+  /** Aligned SPF result */
+  spf: 'pass' | 'fail';
+  headerFrom: string;
+}
+
+/**
+ * An aggregate report (RFC 7489 appendix C)
+ */
+export interface DmarcAggregateReport {
+  /** Organization that sent the report, e.g. `google.com` */
+  reporter: string;
+  reportId: string;
+  /** Domain of the published policy */
+  domain: string;
+  /** Reporting period, Unix timestamps */
+  begin: number;
+  end: number;
+  records: DmarcReportRecord[];
+}
+
+/**
+ * Results of a source IP as seen by one reporter
+ */
+export interface DmarcSourceSummary {
+  sourceIp: string;
+  reporter: string;
+  messages: number;
+  /** Messages with an aligned DKIM or SPF pass */
+  pass: number;
+  fail: number;
+  dkimPass: number;
+  spfPass: number;
+  /** The address is one of the configured sending addresses */
+  known: boolean;
+}
+
+/**
+ * Uncompressed size of a report document at most, larger archives are refused instead of
+ * being inflated into memory
+ */
+const MAX_REPORT_XML_SIZE = 50 * 1024 * 1024;
+
+interface XmlElement {
+  name: string;
+  children: XmlElement[];
+  text: string;
+}
+
+const XML_TOKEN =
+  /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<!\[CDATA\[([\s\S]*?)\]\]>|<(\/?)([^\s/>]+)[^>]*?(\/?)>|([^<]+)/g;
+
+const XML_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Parse an XML document into elements, attributes and namespace prefixes are dropped.
+ * Aggregate reports need nothing more.
+ */
+function parseXml(text: string): XmlElement {
+  const root: XmlElement = { name: '', children: [], text: '' };
+  const stack = [root];
+
+  for (const match of text.matchAll(XML_TOKEN)) {
+    const [, cdata, closing, tagName, selfClosing, chars] = match;
+    const current = stack[stack.length - 1];
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (chars !== undefined) {
+      current.text += chars.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+        if (name.startsWith('#')) {
+          const code =
+            name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+          return String.fromCodePoint(code);
+        }
+        return XML_ENTITIES[name] ?? entity;
+      });
+    } else if (tagName) {
+      const name = tagName.replace(/^[^:]*:/, '');
+      if (closing) {
+        if (stack.length === 1 || current.name !== name) {
+          throw new Error(`Unexpected closing tag </${tagName}>`);
+        }
+        stack.pop();
+      } else {
+        const element: XmlElement = { name, children: [], text: '' };
+        current.children.push(element);
+        if (!selfClosing) stack.push(element);
+      }
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Unclosed tag <${stack[stack.length - 1].name}>`);
+  }
+  if (root.children.length !== 1) {
+    throw new Error('Not an XML document');
+  }
+  return root.children[0];
+}
+
+/**
+ * Find the first element at a path of child names
+ */
+function findElement(element: XmlElement | undefined, ...names: string[]): XmlElement | undefined {
+  return names.reduce(
+    (current, name) => current?.children.find(child => child.name === name),
+    element
+  );
+}
+
+/**
+ * Get the trimmed text of the element at a path of child names, empty if it is missing
+ */
+function getText(element: XmlElement | undefined, ...names: string[]): string {
+  return findElement(element, ...names)?.text.trim() || '';
+}
+
+/**
+ * Parse the XML of an aggregate report
+ * @throws Error if the document is not an aggregate report
+ */
+export function parseAggregateReport(xml: string): DmarcAggregateReport {
+  const feedback = parseXml(xml);
+  if (feedback.name !== 'feedback') {
+    throw new Error(`Not a DMARC aggregate report, the root element is <${feedback.name}>`);
+  }
+
+  const metadata = findElement(feedback, 'report_metadata');
+  const result = (element: XmlElement | undefined, name: string) =>
+    getText(element, 'policy_evaluated', name).toLowerCase() === 'pass' ? 'pass' : 'fail';
+
+  return {
+    reporter: getText(metadata, 'org_name') || getText(metadata, 'email') || 'unknown',
+    reportId: getText(metadata, 'report_id'),
+    domain: getText(feedback, 'policy_published', 'domain'),
+    begin: Number(getText(metadata, 'date_range', 'begin')) || 0,
+    end: Number(getText(metadata, 'date_range', 'end')) || 0,
+    records: feedback.children
+      .filter(child => child.name === 'record')
+      .map(record => {
+        const row = findElement(record, 'row');
+        return {
+          sourceIp: getText(row, 'source_ip'),
+          count: Number(getText(row, 'count')) || 0,
+          disposition: getText(row, 'policy_evaluated', 'disposition') || 'none',
+          dkim: result(row, 'dkim'),
+          spf: result(row, 'spf'),
+          headerFrom: getText(record, 'identifiers', 'header_from'),
+        };
+      }),
+  };
+}
+
+/**
+ * Extract the entries of a ZIP archive
+ * @returns Uncompressed contents by file name
+ */
+function extractZip(data: Buffer): { name: string; content: Buffer }[] {
+  // The end of central directory record is at the end, followed by a comment of up to 64 KiB
+  let end = -1;
+  for (let offset = data.length - 22; offset >= Math.max(0, data.length - 22 - 0xffff); offset--) {
+    if (data.readUInt32LE(offset) === 0x06054b50) {
+      end = offset;
+      break;
+    }
+  }
+  if (end === -1) throw new Error('Invalid ZIP archive');
+
+  const entries: { name: string; content: Buffer }[] = [];
+  let offset = data.readUInt32LE(end + 16);
+  for (let i = 0; i < data.readUInt16LE(end + 10); i++) {
+    if (data.readUInt32LE(offset) !== 0x02014b50) throw new Error('Invalid ZIP archive');
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const headerOffset = data.readUInt32LE(offset + 42);
+    const name = data.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + data.readUInt16LE(offset + 30) + data.readUInt16LE(offset + 32);
+
+    if (name.endsWith('/')) continue;
+    const start =
+      headerOffset +
+      30 +
+      data.readUInt16LE(headerOffset + 26) +
+      data.readUInt16LE(headerOffset + 28);
+    const compressed = data.subarray(start, start + compressedSize);
+    if (method === 0) {
+      entries.push({ name, content: compressed });
+    } else if (method === 8) {
+      entries.push({
+        name,
+        content: zlib.inflateRawSync(compressed, { maxOutputLength: MAX_REPORT_XML_SIZE }),
+      });
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${method} of ${name}`);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Get the report documents of a file or attachment: plain XML, gzip or ZIP compressed XML
+ * @returns XML documents
+ */
+function extractReportXml(data: Buffer): string[] {
+  if (data[0] === 0x1f && data[1] === 0x8b) {
+    return [zlib.gunzipSync(data, { maxOutputLength: MAX_REPORT_XML_SIZE }).toString('utf8')];
+  }
+  if (data.length >= 4 && data.readUInt32LE(0) === 0x04034b50) {
+    return extractZip(data)
+      .filter(entry => entry.name.toLowerCase().endsWith('.xml'))
+      .map(entry => entry.content.toString('utf8'));
+  }
+  return [data.toString('utf8')];
+}
+
+/**
+ * Whether a file looks like an XML document or an archive rather than an email
+ */
+function isReportFile(data: Buffer): boolean {
+  return (
+    (data[0] === 0x1f && data[1] === 0x8b) ||
+    (data.length >= 4 && data.readUInt32LE(0) === 0x04034b50) ||
+    /^\uFEFF?\s*</.test(data.subarray(0, 64).toString('utf8'))
+  );
+}
+
+/**
+ * Parse the aggregate reports of a file, either a report or an email with reports attached
+ * @param data File content
+ */
+export async function parseReportFile(data: Buffer): Promise<DmarcAggregateReport[]> {
+  if (isReportFile(data)) {
+    return extractReportXml(data).map(parseAggregateReport);
+  }
+
+  const mail = await simpleParser(data);
+  const attachments = mail.attachments.filter(
+    attachment => attachment.content.length > 0 && isReportFile(attachment.content)
+  );
+  if (attachments.length === 0) {
+    throw new Error('The message has no report attachment');
+  }
+  return attachments.flatMap(attachment =>
+    extractReportXml(attachment.content).map(parseAggregateReport)
+  );
+}
+
+/**
+ * List the files of report paths: files, directories and maildirs (`cur` and `new`)
+ */
+function listReportFiles(paths: string[]): string[] {
+  return paths.flatMap(reportPath => {
+    if (!fs.statSync(reportPath).isDirectory()) return [reportPath];
+    return listReportFiles(
+      fs
+        .readdirSync(reportPath)
+        .filter(name => !name.startsWith('.') && name !== 'tmp')
+        .map(name => path.join(reportPath, name))
+    );
+  });
+}
+
+/**
+ * Load the aggregate reports of files, directories and maildirs. A report received more
+ * than once is only counted once.
+ * @param paths Paths given on the command line
+ * @returns Reports and the files that could not be read
+ */
+export async function loadDmarcReports(
+  paths: string[]
+): Promise<{ reports: DmarcAggregateReport[]; errors: { file: string; error: string }[] }> {
+  const reports = new Map<string, DmarcAggregateReport>();
+  const errors: { file: string; error: string }[] = [];
+
+  for (const file of listReportFiles(paths)) {
+    try {
+      for (const report of await parseReportFile(fs.readFileSync(file))) {
+        reports.set(`${report.reporter}|${report.reportId}|${report.domain}`, report);
+      }
+    } catch (error) {
+      errors.push({ file, error: (error as Error).message });
+    }
+  }
+  return { reports: [...reports.values()], errors };
+}
+
+/**
+ * Sum up the results of reports by source IP and reporter, most messages first
+ * @param reports Aggregate reports
+ * @param knownIps Configured sending addresses, other sources are marked as unknown
+ */
+export function summarizeDmarcReports(
+  reports: DmarcAggregateReport[],
+  knownIps: string[]
+): DmarcSourceSummary[] {
+  const known = new net.BlockList();
+  knownIps.forEach(ip => known.addAddress(ip, net.isIPv6(ip) ? 'ipv6' : 'ipv4'));
+
+  const summaries = new Map<string, DmarcSourceSummary>();
+  for (const report of reports) {
+    for (const record of report.records) {
+      const key = `${record.sourceIp}|${report.reporter}`;
+      let summary = summaries.get(key);
+      if (!summary) {
+        const type = net.isIPv6(record.sourceIp) ? 'ipv6' : 'ipv4';
+        summary = {
+          sourceIp: record.sourceIp,
+          reporter: report.reporter,
+          messages: 0,
+          pass: 0,
+          fail: 0,
+          dkimPass: 0,
+          spfPass: 0,
+          known: net.isIP(record.sourceIp) !== 0 && known.check(record.sourceIp, type),
+        };
+        summaries.set(key, summary);
+      }
+
+      summary.messages += record.count;
+      if (record.dkim === 'pass' || record.spf === 'pass') {
+        summary.pass += record.count;
+      } else {
+        summary.fail += record.count;
+      }
+      if (record.dkim === 'pass') summary.dkimPass += record.count;
+      if (record.spf === 'pass') summary.spfPass += record.count;
+    }
+  }
+
+  return [...summaries.values()].sort((a, b) => b.messages - a.messages);
+}
+
+/**
+ * Store a report message received by mail in a maildir, for `tinkses dmarc-report`
+ * @param dir Maildir
+ * @param message Raw message
+ * @returns Path of the stored message
+ */
+export function storeDmarcReportMessage(dir: string, message: Buffer): string {
+  const name = `${Date.now()}.${crypto.randomBytes(8).toString('hex')}.${os.hostname()}`;
+  for (const subdir of ['tmp', 'new', 'cur']) {
+    fs.mkdirSync(path.join(dir, subdir), { recursive: true });
+  }
+
+  // Messages are moved to `new` once complete, like maildir deliveries
+  const tmpPath = path.join(dir, 'tmp', name);
+  const newPath = path.join(dir, 'new', name);
+  fs.writeFileSync(tmpPath, message);
+  fs.renameSync(tmpPath, newPath);
+  return newPath;
+}
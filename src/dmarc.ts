@@ -0,0 +1,269 @@
+import dns from 'dns';
+import { DmarcAlignmentMode, DmarcConfig, DmarcPolicy } from './config.js';
+import { parseDkimTags } from './dkim.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ component: 'dmarc' });
+
+/**
+ * DNS lookups of DMARC records, replaceable to test against fixture zones
+ */
+export interface DmarcDnsResolver {
+  resolveTxt(name: string): Promise<string[][]>;
+}
+
+export const defaultDmarcResolver: DmarcDnsResolver = {
+  resolveTxt: name => dns.promises.resolveTxt(name),
+};
+
+/**
+ * Tags of a DMARC record (RFC 7489 section 6.3), with the defaults of omitted tags
+ */
+export interface DmarcRecord {
+  policy: DmarcPolicy;
+  subdomainPolicy: DmarcPolicy;
+  percentage: number;
+  dkimAlignment: DmarcAlignmentMode;
+  spfAlignment: DmarcAlignmentMode;
+  /** URIs aggregate reports are sent to */
+  reportUris: string[];
+  /** URIs failure reports are sent to */
+  failureReportUris: string[];
+}
+
+export interface DmarcAlignment {
+  /** DMARC passes when DKIM or SPF is aligned */
+  pass: boolean;
+  dkim: boolean;
+  spf: boolean;
+}
+
+/**
+ * Seconds published DMARC records are cached for the checks of submitted messages
+ */
+const DMARC_CACHE_TTL = 300;
+
+const POLICIES: DmarcPolicy[] = ['none', 'quarantine', 'reject'];
+
+/**
+ * Second-level labels of country code TLDs that are public suffixes themselves, e.g.
+ * `co.uk`. Without the public suffix list, organizational domains are approximated.
+ */
+const REGISTRY_LABELS = ['ac', 'co', 'com', 'edu', 'gov', 'ne', 'net', 'or', 'org'];
+
+/**
+ * The name exists without records of the requested type, or does not exist at all
+ */
+function isNoData(error: unknown): boolean {
+  const code = (error as { code?: string }).code;
+  return code === 'ENODATA' || code === 'ENOTFOUND';
+}
+
+/**
+ * Get the organizational domain of a domain, the registered domain below its public suffix
+ */
+export function getOrganizationalDomain(domain: string): string {
+  const labels = domain.toLowerCase().replace(/\.$/, '').split('.');
+  const suffixLabels =
+    labels.length > 2 &&
+    labels[labels.length - 1].length === 2 &&
+    REGISTRY_LABELS.includes(labels[labels.length - 2])
+      ? 2
+      : 1;
+  return labels.slice(-(suffixLabels + 1)).join('.');
+}
+
+/**
+ * Check whether an authenticated domain aligns with the From header domain
+ * @param domain Domain authenticated by DKIM (`d=`) or SPF (envelope sender)
+ * @param fromDomain Domain of the From header
+ * @param mode Alignment mode
+ */
+export function isAligned(domain: string, fromDomain: string, mode: DmarcAlignmentMode): boolean {
+  if (mode === 's') return domain.toLowerCase() === fromDomain.toLowerCase();
+  return getOrganizationalDomain(domain) === getOrganizationalDomain(fromDomain);
+}
+
+/**
+ * Check whether a message would pass DMARC, assuming its DKIM signatures verify and the
+ * sending address passes SPF
+ * @param fromDomain Domain of the From header
+ * @param dkimDomains Domains the message is signed for
+ * @param envelopeDomain Domain of the envelope sender, empty for null senders
+ * @param record DMARC record of the From header domain
+ */
+export function checkDmarcAlignment(
+  fromDomain: string,
+  dkimDomains: string[],
+  envelopeDomain: string,
+  record: Pick<DmarcRecord, 'dkimAlignment' | 'spfAlignment'>
+): DmarcAlignment {
+  const dkim = dkimDomains.some(domain => isAligned(domain, fromDomain, record.dkimAlignment));
+  const spf = !!envelopeDomain && isAligned(envelopeDomain, fromDomain, record.spfAlignment);
+  return { pass: dkim || spf, dkim, spf };
+}
+
+/**
+ * Parse a DMARC record
+ * @throws Error describing the first malformed tag
+ */
+export function parseDmarcRecord(text: string): DmarcRecord {
+  if (!/^v\s*=\s*DMARC1\s*(;|$)/.test(text)) {
+    throw new Error('The record must start with "v=DMARC1"');
+  }
+  const tags = parseDkimTags(text);
+
+  const parsePolicy = (tag: string): DmarcPolicy => {
+    const value = tags[tag].toLowerCase() as DmarcPolicy;
+    if (!POLICIES.includes(value)) {
+      throw new Error(`Invalid ${tag}=${tags[tag]}, expected none, quarantine or reject`);
+    }
+    return value;
+  };
+  const parseAlignment = (tag: string): DmarcAlignmentMode => {
+    const value = (tags[tag] || 'r').toLowerCase();
+    if (value !== 'r' && value !== 's') {
+      throw new Error(`Invalid ${tag}=${tags[tag]}, expected r or s`);
+    }
+    return value;
+  };
+  const parseUris = (tag: string): string[] => {
+    const uris = tags[tag] ? tags[tag].split(',') : [];
+    const invalid = uris.find(uri => !/^mailto:[^@\s]+@[^@\s]+$/i.test(uri));
+    if (invalid !== undefined) {
+      throw new Error(`Invalid ${tag} URI "${invalid}", expected mailto:address`);
+    }
+    return uris;
+  };
+
+  if (tags.p === undefined) {
+    throw new Error('The record has no policy (p=)');
+  }
+  const policy = parsePolicy('p');
+
+  let percentage = 100;
+  if (tags.pct !== undefined) {
+    percentage = Number(tags.pct);
+    if (!/^\d+$/.test(tags.pct) || percentage > 100) {
+      throw new Error(`Invalid pct=${tags.pct}, expected a number from 0 to 100`);
+    }
+  }
+
+  return {
+    policy,
+    subdomainPolicy: tags.sp !== undefined ? parsePolicy('sp') : policy,
+    percentage,
+    dkimAlignment: parseAlignment('adkim'),
+    spfAlignment: parseAlignment('aspf'),
+    reportUris: parseUris('rua'),
+    failureReportUris: parseUris('ruf'),
+  };
+}
+
+/**
+ * Get the problems of a valid DMARC record that weaken the protection of the domain
+ * @param record Parsed record
+ * @param dmarc Configured DMARC settings of the domain, compared with the record
+ */
+export function getDmarcWarnings(record: DmarcRecord, dmarc?: DmarcConfig): string[] {
+  const warnings: string[] = [];
+  if (record.policy === 'none') {
+    warnings.push('The policy is p=none, receivers deliver messages that fail DMARC normally');
+  } else if (record.subdomainPolicy === 'none') {
+    warnings.push('The subdomain policy is sp=none, subdomains can be spoofed');
+  }
+  if (record.percentage < 100) {
+    warnings.push(`The policy applies to ${record.percentage}% of failing messages only (pct=)`);
+  }
+  if (record.reportUris.length === 0) {
+    warnings.push('The record has no rua= address, no aggregate reports are received');
+  }
+  if (dmarc && dmarc.policy !== record.policy) {
+    warnings.push(
+      `The published policy p=${record.policy} differs from the configured policy ${dmarc.policy}`
+    );
+  }
+  return warnings;
+}
+
+/**
+ * Look up the DMARC record of a domain, records not starting with `v=DMARC1` are ignored
+ * @returns The record, or undefined if the domain has none
+ * @throws Error if the domain has more than one record, or on DNS failures
+ */
+export async function lookupDmarcRecord(
+  domain: string,
+  resolver: DmarcDnsResolver = defaultDmarcResolver
+): Promise<string | undefined> {
+  let records: string[][];
+  try {
+    records = await resolver.resolveTxt(`_dmarc.${domain}`);
+  } catch (error) {
+    if (isNoData(error)) return undefined;
+    throw error;
+  }
+
+  const dmarcRecords = records
+    .map(chunks => chunks.join(''))
+    .filter(record => /^v\s*=\s*DMARC1\s*(;|$)/.test(record));
+  if (dmarcRecords.length > 1) {
+    throw new Error(
+      `_dmarc.${domain} has ${dmarcRecords.length} DMARC records, receivers ignore them`
+    );
+  }
+  return dmarcRecords[0];
+}
+
+interface CachedDmarcRecord {
+  record?: DmarcRecord;
+  expires: number;
+}
+
+/**
+ * Looks up the DMARC records that apply to From header domains, like receivers do
+ */
+export class DmarcPolicyResolver {
+  private resolver: DmarcDnsResolver;
+  private cache = new Map<string, CachedDmarcRecord>();
+
+  constructor(resolver: DmarcDnsResolver = defaultDmarcResolver) {
+    this.resolver = resolver;
+  }
+
+  /**
+   * Get the DMARC record of a domain, or of its organizational domain if it has none
+   * @param domain From header domain
+   * @returns The record, or undefined if no valid record applies or DNS fails
+   */
+  public async getRecord(domain: string): Promise<DmarcRecord | undefined> {
+    const name = domain.toLowerCase();
+    const cached = this.cache.get(name);
+    if (cached && Date.now() < cached.expires) {
+      return cached.record;
+    }
+
+    let text: string | undefined;
+    try {
+      const organizationalDomain = getOrganizationalDomain(name);
+      text =
+        (await lookupDmarcRecord(name, this.resolver)) ??
+        (organizationalDomain !== name
+          ? await lookupDmarcRecord(organizationalDomain, this.resolver)
+          : undefined);
+    } catch (error) {
+      log.debug('DMARC record lookup failed', { domain: name, error });
+      return undefined;
+    }
+
+    let record: DmarcRecord | undefined;
+    try {
+      record = text ? parseDmarcRecord(text) : undefined;
+    } catch (error) {
+      // Receivers do not apply invalid records either
+      log.debug('Invalid DMARC record', { domain: name, error });
+    }
+
+    this.cache.set(name, { record, expires: Date.now() + DMARC_CACHE_TTL * 1000 });
+    return record;
+  }
+}
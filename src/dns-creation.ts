@@ -1,42 +1,49 @@
 import crypto from 'crypto';
+import { DmarcConfig } from './config.js';
+import { DkimKeyType, getDkimKeyType } from './dkim.js';
 
+/**
+ * Generate a DKIM key pair
+ * @param outputDir Directory of the configuration
+ * @param selector Selector the key is used with
+ * @param keyType `rsa` or `ed25519`
+ * @param rsaKeySize Size of RSA keys in bits
+ */
 export function generateDkimKeys(
   outputDir: string,
-  selector: string = 'default'
+  selector: string = 'default',
+  keyType: DkimKeyType = 'rsa',
+  rsaKeySize: number = 2048
 ): { privateKey: string; publicKey: string } {
-  console.log('Generating DKIM keys...');
+  console.log(`Generating ${keyType === 'rsa' ? `RSA-${rsaKeySize}` : 'Ed25519'} DKIM keys...`);
+  const publicKeyEncoding = { type: 'spki', format: 'pem' } as const;
+  const privateKeyEncoding = { type: 'pkcs8', format: 'pem' } as const;
+
   // Generate key pair
-  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', {
-    modulusLength: 2048,
-    publicKeyEncoding: {
-      type: 'spki',
-      format: 'pem',
-    },
-    privateKeyEncoding: {
-      type: 'pkcs8',
-      format: 'pem',
-    },
+  if (keyType === 'ed25519') {
+    return crypto.generateKeyPairSync('ed25519', { publicKeyEncoding, privateKeyEncoding });
+  }
+  return crypto.generateKeyPairSync('rsa', {
+    modulusLength: rsaKeySize,
+    publicKeyEncoding,
+    privateKeyEncoding,
   });
+}
 
-  return {
-    privateKey,
-    publicKey,
-  };
-
-  // Create DNS TXT record
-  // Convert the public key to the correct format for DNS
-  /* const publicKeyForDns = publicKey
-    .toString()
-    .replace(/-----BEGIN PUBLIC KEY-----|-----END PUBLIC KEY-----|\n/g, '')
-    .trim();
-
-  const dnsRecord = `${selector}._domainkey IN TXT "v=DKIM1; k=rsa; p=${publicKeyForDns}"`;
-
-  console.log('DKIM keys generated successfully!');
-  console.log(`Private key saved at: ${privateKeyPath}`);
-  console.log(`Public key saved at: ${publicKeyPath}`);
+/**
+ * Get the `p=` value of the DKIM record of a PEM encoded public key: the base64 encoded key
+ * for RSA, the bare 32 byte key for Ed25519 (RFC 8463 section 4.2)
+ */
+export function getDkimPublicKeyData(publicKey: string): string {
+  if (getDkimKeyType(publicKey) === 'ed25519') {
+    const der = crypto.createPublicKey(publicKey).export({ type: 'spki', format: 'der' });
+    return der.subarray(-32).toString('base64');
+  }
+  return publicKey.replace(/-----BEGIN PUBLIC KEY-----|-----END PUBLIC KEY-----|\s/g, '');
+}
 
-  return { privateKeyPath, publicKeyPath, dnsRecord }; */
+export function generateDkimRecord(publicKey: string): string {
+  return `v=DKIM1; k=${getDkimKeyType(publicKey)}; p=${getDkimPublicKeyData(publicKey)}`;
 }
 
 export function generateSpfRecord(domain: string, ips: string[]): string {
@@ -51,7 +58,23 @@ export function generateSpfRecord(domain: string, ips: string[]): string {
   return spfRecord;
 }
 
-export function generateDmarcRecord(domain: string): string {
-  const dmarcRecord = 'v=DMARC1; p=none; sp=none; adkim=r; aspf=r;';
-  return dmarcRecord;
+/**
+ * Generate a DMARC record from the configured settings
+ * @param dmarc DMARC settings of the domain
+ */
+export function generateDmarcRecord(dmarc: DmarcConfig = { policy: 'none' }): string {
+  const tags = [
+    'v=DMARC1',
+    `p=${dmarc.policy}`,
+    `sp=${dmarc.subdomainPolicy || dmarc.policy}`,
+    ...(dmarc.percentage !== undefined && dmarc.percentage < 100
+      ? [`pct=${dmarc.percentage}`]
+      : []),
+    `adkim=${dmarc.dkimAlignment || 'r'}`,
+    `aspf=${dmarc.spfAlignment || 'r'}`,
+    ...(dmarc.reportTo?.length
+      ? [`rua=${dmarc.reportTo.map(address => `mailto:${address}`).join(',')}`]
+      : []),
+  ];
+  return `${tags.join('; ')};`;
 }
@@ -2,52 +2,105 @@ import dns from 'dns';
 import { promisify } from 'util';
 import fs from 'fs';
 import crypto from 'crypto';
-import { TinkSESConfig } from './config.js';
-import { generateSpfRecord, generateDmarcRecord } from './dns-creation.js';
+import {
+  DkimKey,
+  DmarcConfig,
+  getDomainConfig,
+  getDomainConfigs,
+  getDomainIps,
+  TinkSESConfig,
+} from './config.js';
+import {
+  generateDkimRecord,
+  generateDmarcRecord,
+  generateSpfRecord,
+  getDkimPublicKeyData,
+} from './dns-creation.js';
+import {
+  DkimKeyType,
+  getDkimKeyType,
+  parseDkimTags,
+  signDkim,
+  verifyDkimSignature,
+} from './dkim.js';
+import {
+  defaultDmarcResolver,
+  DmarcDnsResolver,
+  DmarcRecord,
+  getDmarcWarnings,
+  getOrganizationalDomain,
+  lookupDmarcRecord,
+  parseDmarcRecord,
+} from './dmarc.js';
+import { logger } from './logger.js';
+import {
+  checkSpf,
+  countSpfLookups,
+  defaultSpfResolver,
+  MAX_SPF_LOOKUPS,
+  SpfDnsResolver,
+} from './spf.js';
+
+const log = logger.child({ component: 'dns' });
 
 // Promisify DNS lookups
 const resolveTxt = promisify(dns.resolveTxt);
 
-interface VerificationResult {
+export interface VerificationResult {
   isValid: boolean;
   message: string;
+  /** Problems that do not make the record invalid */
+  warnings?: string[];
 }
 
 /**
- * Verify SPF record configuration
+ * Verify SPF record configuration by evaluating the record for every sending address,
+ * like receivers do
  * @param domain Domain to check
- * @param ips Expected IP addresses in the SPF record
+ * @param ips Addresses that must pass
+ * @param resolver DNS lookups to use
  */
-async function verifySpfRecord(domain: string, ips: string[]): Promise<VerificationResult> {
+export async function verifySpfRecord(
+  domain: string,
+  ips: string[],
+  resolver: SpfDnsResolver = defaultSpfResolver
+): Promise<VerificationResult> {
   try {
-    const records = await resolveTxt(domain);
-
-    // Find SPF record
-    const spfRecord = records.flat().find(record => record.startsWith('v=spf1'));
-
-    if (!spfRecord) {
+    // Receivers checking other addresses evaluate the whole record
+    const record = await countSpfLookups(domain, { resolver });
+    if (record.result === 'none') {
       return {
         isValid: false,
         message: `No SPF record found for ${domain}. Please add the SPF record to your DNS configuration.`,
       };
     }
+    if (record.result === 'permerror' || record.result === 'temperror') {
+      return {
+        isValid: false,
+        message: `SPF record of ${domain} cannot be evaluated (${record.result}): ${record.error}`,
+        warnings: record.warnings,
+      };
+    }
 
-    // Check if all IPs are included in the SPF record
-    const missingIps = ips.filter(ip => {
-      const format = ip.includes(':') ? `ip6:${ip}` : `ip4:${ip}`;
-      return !spfRecord.includes(format);
+    const evaluations = await Promise.all(ips.map(ip => checkSpf(ip, domain, { resolver })));
+    const details = evaluations.map((evaluation, i) => {
+      const reason = evaluation.mechanism || evaluation.error || 'no mechanism matched';
+      return `${ips[i]}: ${evaluation.result} (${reason}, ${evaluation.lookups} DNS lookups)`;
     });
+    const lookups = `The record needs up to ${record.lookups} of ${MAX_SPF_LOOKUPS} DNS lookups.`;
 
-    if (missingIps.length > 0) {
+    if (evaluations.some(evaluation => evaluation.result !== 'pass')) {
       return {
         isValid: false,
-        message: `SPF record found but missing the following IPs: ${missingIps.join(', ')}`,
+        message: `SPF record found but not all addresses pass: ${details.join('; ')}. ${lookups}`,
+        warnings: record.warnings,
       };
     }
 
     return {
       isValid: true,
-      message: 'SPF record is properly configured.',
+      message: `SPF record is properly configured. ${[...details, lookups].join('; ')}`,
+      warnings: record.warnings,
     };
   } catch (error) {
     return {
@@ -57,72 +110,203 @@ async function verifySpfRecord(domain: string, ips: string[]): Promise<Verificat
   }
 }
 
+/**
+ * Look up the DKIM key record of a selector and check that receivers can use it
+ * (RFC 6376 section 3.6.1)
+ * @param dkimDomain Name of the record, `<selector>._domainkey.<domain>`
+ * @returns The tags of the record, or why it cannot be used
+ */
+async function lookupDkimKey(
+  dkimDomain: string
+): Promise<{ tags: Record<string, string>; warnings: string[] } | { error: string }> {
+  const records = await resolveTxt(dkimDomain);
+
+  // Long records are split into several strings
+  const keyRecords = (records || [])
+    .map(chunks => chunks.join(''))
+    .filter(record => record.startsWith('v=DKIM1') || /(?:^|;)\s*p=/.test(record));
+
+  if (keyRecords.length === 0) {
+    return {
+      error:
+        records && records.length > 0
+          ? `Invalid DKIM record format for ${dkimDomain}. Record should start with "v=DKIM1".`
+          : `No DKIM record found for ${dkimDomain}. Please add the DKIM record to your DNS configuration.`,
+    };
+  }
+  if (keyRecords.length > 1) {
+    return {
+      error: `Multiple DKIM records found for ${dkimDomain}. Receivers cannot tell which key to use, keep only one.`,
+    };
+  }
+
+  const tags = parseDkimTags(keyRecords[0]);
+  const keyType = tags.k || 'rsa';
+  if (tags.v !== undefined && tags.v !== 'DKIM1') {
+    return { error: `Invalid DKIM record version v=${tags.v} for ${dkimDomain}.` };
+  }
+  if (tags.p === undefined) {
+    return { error: `DKIM record for ${dkimDomain} has no public key (p=).` };
+  }
+  if (tags.p === '') {
+    return { error: `The key of the DKIM record for ${dkimDomain} is revoked (empty p=).` };
+  }
+  if (keyType !== 'rsa' && keyType !== 'ed25519') {
+    return { error: `DKIM record for ${dkimDomain} has an unsupported key type k=${keyType}.` };
+  }
+  if (tags.h && !tags.h.split(':').includes('sha256')) {
+    return {
+      error: `DKIM record for ${dkimDomain} does not allow SHA-256 signatures (h=${tags.h}).`,
+    };
+  }
+  if (tags.s && !tags.s.split(':').some(service => service === '*' || service === 'email')) {
+    return { error: `DKIM record for ${dkimDomain} is not valid for email (s=${tags.s}).` };
+  }
+  const warnings: string[] = [];
+  if (tags.t?.split(':').includes('y')) {
+    warnings.push(
+      `DKIM record for ${dkimDomain} is in testing mode (t=y), receivers treat signed messages as unsigned. Remove the flag once testing is done.`
+    );
+  }
+  return { tags, warnings };
+}
+
 /**
  * Verify DKIM record configuration
  * @param domain Domain to check
  * @param selector DKIM selector
+ * @param publicKey PEM encoded public key the record must publish, not checked if omitted
  */
-async function verifyDkimRecord(domain: string, selector: string): Promise<VerificationResult> {
+export async function verifyDkimRecord(
+  domain: string,
+  selector: string,
+  publicKey?: string
+): Promise<VerificationResult> {
   try {
     const dkimDomain = `${selector}._domainkey.${domain}`;
-    const records = await resolveTxt(dkimDomain);
+    const key = await lookupDkimKey(dkimDomain);
+    if ('error' in key) {
+      return { isValid: false, message: key.error };
+    }
 
-    if (!records || records.length === 0) {
-      return {
-        isValid: false,
-        message: `No DKIM record found for ${dkimDomain}. Please add the DKIM record to your DNS configuration.`,
-      };
+    if (publicKey) {
+      const keyType = getDkimKeyType(publicKey);
+      if ((key.tags.k || 'rsa') !== keyType) {
+        return {
+          isValid: false,
+          message: `DKIM record found for ${dkimDomain} but its key type (k=${key.tags.k || 'rsa'}) does not match the configured ${keyType} key.`,
+        };
+      }
+      if (key.tags.p !== getDkimPublicKeyData(publicKey)) {
+        return {
+          isValid: false,
+          message: `DKIM record found for ${dkimDomain} but its public key (p=) does not match the configured key.`,
+        };
+      }
     }
 
-    const dkimRecord = records.flat().find(record => record.startsWith('v=DKIM1'));
+    return {
+      isValid: true,
+      message: 'DKIM record is properly configured.',
+      warnings: key.warnings,
+    };
+  } catch (error) {
+    return {
+      isValid: false,
+      message: `Failed to verify DKIM record: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
 
-    if (!dkimRecord) {
+/**
+ * Sign a sample message with a configured private key and verify the signature with the
+ * public key published in DNS, like a receiver would
+ * @param domain Signing domain
+ * @param key Selector and private key to test
+ */
+export async function testDkimSigning(domain: string, key: DkimKey): Promise<VerificationResult> {
+  const dkimDomain = `${key.selector}._domainkey.${domain}`;
+  try {
+    const published = await lookupDkimKey(dkimDomain);
+    if ('error' in published) {
+      return { isValid: false, message: published.error };
+    }
+
+    const sample = Buffer.from(
+      [
+        `From: dkim-test@${domain}`,
+        `To: dkim-test@${domain}`,
+        'Subject: TinkSES DKIM self-test',
+        `Date: ${new Date().toUTCString()}`,
+        `Message-ID: <${Date.now()}.dkim-test@${domain}>`,
+        '',
+        'This message tests the DKIM key.',
+        '',
+      ].join('\r\n')
+    );
+    const signed = signDkim(sample, [
+      { domain, selector: key.selector, privateKey: key.privateKey },
+    ]);
+    const error = verifyDkimSignature(
+      signed,
+      published.tags.p,
+      (published.tags.k || 'rsa') as DkimKeyType
+    );
+    if (error) {
       return {
         isValid: false,
-        message: `Invalid DKIM record format for ${dkimDomain}. Record should start with "v=DKIM1".`,
+        message: `Sample message signed with selector ${key.selector} failed verification against ${dkimDomain}: ${error}. The private key does not match the published key.`,
       };
     }
 
     return {
       isValid: true,
-      message: 'DKIM record is properly configured.',
+      message: `Sample message signed with selector ${key.selector} verified against ${dkimDomain}.`,
+      warnings: published.warnings,
     };
   } catch (error) {
     return {
       isValid: false,
-      message: `Failed to verify DKIM record: ${error instanceof Error ? error.message : String(error)}`,
+      message: `DKIM self-test failed: ${error instanceof Error ? error.message : String(error)}`,
     };
   }
 }
 
 /**
- * Verify DMARC record configuration
+ * Verify DMARC record configuration, the policy and its tags
  * @param domain Domain to check
+ * @param dmarc Configured DMARC settings of the domain
+ * @param resolver DNS lookups to use
  */
-async function verifyDmarcRecord(domain: string): Promise<VerificationResult> {
+export async function verifyDmarcRecord(
+  domain: string,
+  dmarc?: DmarcConfig,
+  resolver: DmarcDnsResolver = defaultDmarcResolver
+): Promise<VerificationResult> {
+  const dmarcDomain = `_dmarc.${domain}`;
   try {
-    const dmarcDomain = `_dmarc.${domain}`;
-    const records = await resolveTxt(dmarcDomain);
-
-    if (!records || records.length === 0) {
+    const text = await lookupDmarcRecord(domain, resolver);
+    if (!text) {
       return {
         isValid: false,
         message: `No DMARC record found for ${dmarcDomain}. Please add the DMARC record to your DNS configuration.`,
       };
     }
 
-    const dmarcRecord = records.flat().find(record => record.startsWith('v=DMARC1'));
-
-    if (!dmarcRecord) {
+    let record: DmarcRecord;
+    try {
+      record = parseDmarcRecord(text);
+    } catch (error) {
       return {
         isValid: false,
-        message: `Invalid DMARC record format for ${dmarcDomain}. Record should start with "v=DMARC1".`,
+        message: `Invalid DMARC record for ${dmarcDomain}: ${(error as Error).message}`,
       };
     }
 
     return {
       isValid: true,
-      message: 'DMARC record is properly configured.',
+      message: `DMARC record is properly configured: p=${record.policy}, sp=${record.subdomainPolicy}, pct=${record.percentage}, adkim=${record.dkimAlignment}, aspf=${record.spfAlignment}.`,
+      warnings: getDmarcWarnings(record, dmarc),
     };
   } catch (error) {
     return {
@@ -138,35 +322,40 @@ async function verifyDmarcRecord(domain: string): Promise<VerificationResult> {
  * @param spf Whether to generate for SPF record
  * @param dkim Whether to generate for DKIM record
  * @param dmarc Whether to generate for DMARC record
+ * @param domain Sending domain, defaults to the primary domain
  * @returns Configuration tips as a formatted string
  */
 export function generateDnsConfigurationTips(
   config: TinkSESConfig,
   spf: boolean,
   dkim: boolean,
-  dmarc: boolean
+  dmarc: boolean,
+  domain: string = config.domain
 ): string {
-  let tips = '\n=== DNS CONFIGURATION TIPS ===\n';
+  const domainConfig = getDomainConfig(config, domain) || config;
+  let tips = `\n=== DNS CONFIGURATION TIPS: ${domain} ===\n`;
 
   if (spf) {
-    const spfRecord = generateSpfRecord(config.domain, config.ip);
+    const spfRecord = generateSpfRecord(domain, getDomainIps(config, domain));
     tips += '\n📌 SPF Record:\n';
     tips += "Add this TXT record to your domain's DNS configuration:\n\n";
-    tips += `${config.domain}. IN TXT "${spfRecord}"\n\n`;
+    tips += `${domain}. IN TXT "${spfRecord}"\n\n`;
     tips += 'This allows your server IPs to send mail for your domain.\n';
   }
 
   if (dkim) {
     // If DKIM private key exists, extract public key for DNS record
     let dkimTip = '\n📌 DKIM Record:\n';
-    if (config.dkim.publicKey) {
+    const keys = [domainConfig.dkim, domainConfig.dkim.secondary].filter(key => !!key);
+    if (keys.every(key => key.publicKey)) {
       try {
-        const publicKey = config.dkim.publicKey
-          .replace(/-----BEGIN PUBLIC KEY-----|-----END PUBLIC KEY-----|\n/g, '')
-          .trim();
+        const records = keys.map(
+          key =>
+            `${key.selector}._domainkey.${domain}. IN TXT "${generateDkimRecord(key.publicKey)}"\n`
+        );
 
-        dkimTip += "Add this TXT record to your domain's DNS configuration:\n\n";
-        dkimTip += `${config.dkim.selector}._domainkey.${config.domain}. IN TXT "v=DKIM1; k=rsa; p=${publicKey}"\n\n`;
+        dkimTip += `Add ${records.length > 1 ? 'these TXT records' : 'this TXT record'} to your domain's DNS configuration:\n\n`;
+        dkimTip += `${records.join('')}\n`;
       } catch (error) {
         dkimTip +=
           'Unable to generate DKIM record from private key. Please run "tinkses init" to generate new keys.\n';
@@ -179,11 +368,32 @@ export function generateDnsConfigurationTips(
   }
 
   if (dmarc) {
-    const dmarcRecord = generateDmarcRecord(config.domain);
+    const dmarcConfig = domainConfig.dmarc || { policy: 'none' };
+    const dmarcRecord = generateDmarcRecord(dmarcConfig);
     tips += '\n📌 DMARC Record:\n';
     tips += "Add this TXT record to your domain's DNS configuration:\n\n";
-    tips += `_dmarc.${config.domain}. IN TXT "${dmarcRecord}"\n\n`;
+    tips += `_dmarc.${domain}. IN TXT "${dmarcRecord}"\n\n`;
     tips += 'DMARC tells receivers how to handle emails that fail SPF or DKIM checks.\n';
+
+    // Reports to another domain are only sent if that domain accepts them (RFC 7489 section 7.1)
+    const reportDomains = new Set(
+      (dmarcConfig.reportTo || [])
+        .map(address => address.split('@')[1]?.toLowerCase())
+        .filter(
+          reportDomain =>
+            reportDomain &&
+            getOrganizationalDomain(reportDomain) !== getOrganizationalDomain(domain)
+        )
+    );
+    for (const reportDomain of reportDomains) {
+      tips += `\nAdd this TXT record to the DNS configuration of ${reportDomain} to receive the reports:\n\n`;
+      tips += `${domain}._report._dmarc.${reportDomain}. IN TXT "v=DMARC1"\n`;
+    }
+
+    if (dmarcConfig.policy !== 'reject') {
+      tips +=
+        '\nRoll out DMARC in stages: review the aggregate reports until all your mail passes, then raise `dmarc.policy` from none to quarantine and finally reject, and update the record.\n';
+    }
   }
 
   tips += "\nOnce you've added these records, DNS changes may take 24-48 hours to propagate.\n";
@@ -196,41 +406,64 @@ export async function verifyDnsConfiguration(
   config: TinkSESConfig,
   strict: boolean = false
 ): Promise<boolean> {
-  console.log(`\nVerifying DNS configuration for ${config.domain}...`);
-
-  const spfResult = await verifySpfRecord(config.domain, config.ip);
-  const dkimResult = await verifyDkimRecord(config.domain, config.dkim.selector);
-  const dmarcResult = await verifyDmarcRecord(config.domain);
+  let allValid = true;
+
+  for (const [domain, domainConfig] of Object.entries(getDomainConfigs(config))) {
+    const domainLog = log.child({ domain });
+    domainLog.info('Verifying DNS configuration');
+
+    const spfResult = await verifySpfRecord(domain, getDomainIps(config, domain));
+    const { dkim } = domainConfig;
+    const dkimResults = [await verifyDkimRecord(domain, dkim.selector, dkim.publicKey)];
+    if (dkim.secondary) {
+      dkimResults.push(
+        await verifyDkimRecord(domain, dkim.secondary.selector, dkim.secondary.publicKey)
+      );
+    }
+    const dkimResult = dkimResults.find(result => !result.isValid) || dkimResults[0];
+    const dmarcResult = await verifyDmarcRecord(domain, domainConfig.dmarc);
+
+    for (const [record, result] of Object.entries({
+      SPF: spfResult,
+      DKIM: dkimResults[0],
+      ...(dkimResults[1] ? { 'DKIM (secondary key)': dkimResults[1] } : {}),
+      DMARC: dmarcResult,
+    })) {
+      if (result.isValid) {
+        domainLog.info(`${record}: ${result.message}`, { record, valid: true });
+      } else {
+        domainLog.warn(`${record}: ${result.message}`, { record, valid: false });
+      }
+      result.warnings?.forEach(warning => domainLog.warn(`${record}: ${warning}`, { record }));
+    }
 
-  console.log(`\nSPF: ${spfResult.isValid ? '✓' : '✗'} ${spfResult.message}`);
-  console.log(`DKIM: ${dkimResult.isValid ? '✓' : '✗'} ${dkimResult.message}`);
-  console.log(`DMARC: ${dmarcResult.isValid ? '✓' : '✗'} ${dmarcResult.message}`);
+    if (!spfResult.isValid || !dkimResult.isValid || !dmarcResult.isValid) {
+      allValid = false;
 
-  const allValid = spfResult.isValid && dkimResult.isValid && dmarcResult.isValid;
+      // Display configuration tips for missing or invalid records
+      const configTips = generateDnsConfigurationTips(
+        config,
+        !spfResult.isValid,
+        !dkimResult.isValid,
+        !dmarcResult.isValid,
+        domain
+      );
+      domainLog.info(configTips.trim());
+    }
+  }
 
   if (!allValid) {
-    // Display configuration tips for missing or invalid records
-    const configTips = generateDnsConfigurationTips(
-      config,
-      !spfResult.isValid,
-      !dkimResult.isValid,
-      !dmarcResult.isValid
-    );
-    console.log(configTips);
-
     if (strict) {
-      console.log(
-        '\nServer start aborted. Please configure your DNS records correctly and try again.'
-      );
+      log.error('Server start aborted. Please configure your DNS records correctly and try again.');
       return false;
     } else {
-      console.log(
-        '\nContinuing server startup, but emails may be marked as spam or rejected by receivers.'
+      log.warn(
+        'Continuing server startup, but emails may be marked as spam or rejected by receivers.'
       );
     }
   } else {
-    console.log(
-      '\nAll DNS records are properly configured! Your emails should have good deliverability.'
+    log.info(
+      'All DNS records are properly configured! Your emails should have good deliverability.'
     );
   }
 
@@ -0,0 +1,482 @@
+import net from 'net';
+import { getDomainConfigs, getDomainIps, OutboundAddress, TinkSESConfig } from './config.js';
+import { getEhloName } from './delivery.js';
+import { lookupDmarcRecord, parseDmarcRecord } from './dmarc.js';
+import { parseDkimTags } from './dkim.js';
+import {
+  verifyDkimRecord,
+  verifyDmarcRecord,
+  verifySpfRecord,
+  VerificationResult,
+} from './dns-verification.js';
+import { getIpPool } from './ip-pool.js';
+import { getNetworkInterfaces, isPrivateIP } from './network.js';
+import { defaultSpfResolver, inNetwork, ipv6Nibbles, SpfDnsResolver } from './spf.js';
+import {
+  defaultMtaStsFetcher,
+  MtaStsFetcher,
+  mxMatchesPatterns,
+  parseMtaStsPolicy,
+  parseMtaStsRecord,
+} from './tls-policy.js';
+
+/**
+ * `info` reports optional features that are not set up, it does not affect the exit code
+ */
+export type DoctorStatus = 'pass' | 'info' | 'warn' | 'fail';
+
+export interface DoctorCheck {
+  /** Name of the check, e.g. `spf` or `dnsbl` */
+  check: string;
+  /** Domain, host name or address the check is about */
+  subject: string;
+  status: DoctorStatus;
+  message: string;
+  /** Further findings, e.g. the warnings of a record */
+  details?: string[];
+}
+
+export interface DoctorReport {
+  checks: DoctorCheck[];
+  summary: Record<DoctorStatus, number>;
+}
+
+export interface DoctorOptions {
+  /** Domains to check, defaults to all sending domains */
+  domains?: string[];
+  /** DNSBL zones the sending addresses are looked up in */
+  dnsblZones?: string[];
+  resolver?: SpfDnsResolver;
+  fetcher?: MtaStsFetcher;
+  /** Addresses of the network interfaces, defaults to those of this host */
+  localAddresses?: string[];
+}
+
+/**
+ * Widely used blocklists that answer queries from most resolvers
+ */
+export const DEFAULT_DNSBL_ZONES = [
+  'zen.spamhaus.org',
+  'b.barracudacentral.org',
+  'bl.spamcop.net',
+  'psbl.surriel.com',
+];
+
+type CheckResult = Omit<DoctorCheck, 'check' | 'subject'>;
+
+/**
+ * The name exists without records of the requested type, or does not exist at all
+ */
+function isNoData(error: unknown): boolean {
+  const code = (error as { code?: string }).code;
+  return code === 'ENODATA' || code === 'ENOTFOUND';
+}
+
+/**
+ * Run a DNS lookup, a missing name or record is an empty answer
+ */
+async function lookup<T>(query: () => Promise<T[]>): Promise<T[]> {
+  try {
+    return await query();
+  } catch (error) {
+    if (isNoData(error)) return [];
+    throw error;
+  }
+}
+
+/**
+ * Get the TXT records of a name that start with a version tag, e.g. `v=TLSRPTv1`
+ */
+async function lookupVersionedTxt(
+  resolver: SpfDnsResolver,
+  name: string,
+  version: string
+): Promise<string[]> {
+  const records = await lookup(() => resolver.resolveTxt(name));
+  return records
+    .map(chunks => chunks.join(''))
+    .filter(record => new RegExp(`^v\\s*=\\s*${version}\\s*(;|$)`).test(record));
+}
+
+async function resolveAddresses(resolver: SpfDnsResolver, host: string): Promise<string[]> {
+  const [ipv4, ipv6] = await Promise.all([
+    lookup(() => resolver.resolve4(host)),
+    lookup(() => resolver.resolve6(host)),
+  ]);
+  return [...ipv4, ...ipv6];
+}
+
+/**
+ * Turn the result of a DNS record verification into a check result
+ */
+function fromVerification(result: VerificationResult): CheckResult {
+  const status = !result.isValid ? 'fail' : result.warnings?.length ? 'warn' : 'pass';
+  return { status, message: result.message, details: result.warnings };
+}
+
+/**
+ * Check that an address has a PTR record resolving back to it, named like the EHLO name
+ * @param ip Sending address
+ * @param ehloNames EHLO names of the domains sending from the address
+ */
+async function checkReverseDns(
+  resolver: SpfDnsResolver,
+  ip: string,
+  ehloNames: string[]
+): Promise<CheckResult> {
+  if (isPrivateIP(ip)) {
+    return { status: 'info', message: 'Private address, receivers never see it' };
+  }
+
+  const names = (await lookup(() => resolver.reverse(ip))).map(name =>
+    name.toLowerCase().replace(/\.$/, '')
+  );
+  if (names.length === 0) {
+    return { status: 'fail', message: 'No PTR record, many receivers reject such senders' };
+  }
+
+  const confirmed: string[] = [];
+  for (const name of names) {
+    const addresses = await resolveAddresses(resolver, name);
+    if (addresses.some(address => inNetwork(ip, address))) confirmed.push(name);
+  }
+  if (confirmed.length === 0) {
+    return {
+      status: 'fail',
+      message: `The PTR record ${names.join(', ')} does not resolve back to ${ip}`,
+    };
+  }
+
+  const matching = confirmed.find(name => ehloNames.includes(name));
+  if (!matching) {
+    return {
+      status: 'warn',
+      message: `Forward-confirmed as ${confirmed.join(', ')}, but the EHLO name is ${ehloNames.join(', ')}. Some receivers expect them to match.`,
+    };
+  }
+  return { status: 'pass', message: `Forward-confirmed as ${matching}, the EHLO name` };
+}
+
+/**
+ * Check that the EHLO name resolves, to one of the sending addresses
+ * @param name EHLO name
+ * @param ips Addresses sending with the name
+ */
+async function checkEhloName(
+  resolver: SpfDnsResolver,
+  name: string,
+  ips: string[]
+): Promise<CheckResult> {
+  const addresses = await resolveAddresses(resolver, name);
+  if (addresses.length === 0) {
+    return { status: 'fail', message: `The EHLO name ${name} has no A or AAAA record` };
+  }
+  if (!addresses.some(address => ips.some(ip => inNetwork(ip, address)))) {
+    return {
+      status: 'warn',
+      message: `The EHLO name ${name} resolves to ${addresses.join(', ')}, none of them a sending address`,
+    };
+  }
+  return { status: 'pass', message: `The EHLO name ${name} resolves to ${addresses.join(', ')}` };
+}
+
+/**
+ * Check that connections can be bound to an address of an IP pool, and that the domains
+ * sending from it authorize it
+ * @param address Pool address
+ * @param localAddresses Addresses of the network interfaces
+ * @param domainIps Addresses the domains using the pool publish in SPF
+ */
+function checkPoolAddress(
+  address: string,
+  localAddresses: string[],
+  domainIps: string[]
+): CheckResult {
+  if (!localAddresses.some(local => inNetwork(address, local))) {
+    return {
+      status: 'fail',
+      message: 'Not an address of a network interface, connections cannot be bound to it',
+    };
+  }
+  if (isPrivateIP(address)) {
+    return {
+      status: 'info',
+      message: `Private address, it has to be translated to one of ${domainIps.join(', ')}`,
+    };
+  }
+  if (!domainIps.some(ip => inNetwork(address, ip))) {
+    return {
+      status: 'warn',
+      message: `Not in the ip list of the domains sending from it (${domainIps.join(', ')}), their SPF records may not authorize it`,
+    };
+  }
+  return { status: 'pass', message: 'Bound to a network interface and in the ip list' };
+}
+
+/**
+ * Check that a domain receives mail, for bounces and replies to its envelope senders
+ */
+async function checkMx(resolver: SpfDnsResolver, domain: string): Promise<CheckResult> {
+  const records = await lookup(() => resolver.resolveMx(domain));
+  if (records.length === 1 && ['', '.'].includes(records[0].exchange)) {
+    return { status: 'fail', message: 'Null MX record, bounces to this domain are refused' };
+  }
+  if (records.length > 0) {
+    const hosts = [...records].sort((a, b) => a.priority - b.priority).map(mx => mx.exchange);
+    return { status: 'pass', message: `MX records: ${hosts.join(', ')}` };
+  }
+  if ((await resolveAddresses(resolver, domain)).length > 0) {
+    return {
+      status: 'warn',
+      message: 'No MX record, bounces are sent to the address records of the domain',
+    };
+  }
+  return { status: 'fail', message: 'No MX or address record, bounces cannot be delivered' };
+}
+
+/**
+ * Check the MTA-STS record and policy, and that the policy covers the MX hosts
+ */
+async function checkMtaSts(
+  resolver: SpfDnsResolver,
+  fetcher: MtaStsFetcher,
+  domain: string
+): Promise<CheckResult> {
+  const records = await lookup(() => resolver.resolveTxt(`_mta-sts.${domain}`));
+  const id = parseMtaStsRecord(records);
+  if (!id) {
+    return records.some(chunks => chunks.join('').startsWith('v=STSv1'))
+      ? { status: 'fail', message: `Invalid MTA-STS record at _mta-sts.${domain}` }
+      : { status: 'info', message: 'No MTA-STS record, senders cannot require TLS' };
+  }
+
+  let policy;
+  try {
+    policy = parseMtaStsPolicy(await fetcher.fetchPolicy(domain), id);
+  } catch (error) {
+    return { status: 'fail', message: `MTA-STS policy unavailable: ${(error as Error).message}` };
+  }
+
+  const mxHosts = (await lookup(() => resolver.resolveMx(domain))).map(mx => mx.exchange);
+  const uncovered = mxHosts.filter(host => !mxMatchesPatterns(host, policy.mx));
+  if (uncovered.length > 0) {
+    return {
+      status: 'fail',
+      message: `The MTA-STS policy does not cover the MX hosts ${uncovered.join(', ')}`,
+    };
+  }
+  if (policy.mode !== 'enforce') {
+    return { status: 'warn', message: `MTA-STS policy in ${policy.mode} mode` };
+  }
+  return { status: 'pass', message: `MTA-STS policy enforced, id ${id}` };
+}
+
+/**
+ * Check the TLS-RPT record (RFC 8460)
+ */
+async function checkTlsRpt(resolver: SpfDnsResolver, domain: string): Promise<CheckResult> {
+  const records = await lookupVersionedTxt(resolver, `_smtp._tls.${domain}`, 'TLSRPTv1');
+  if (records.length === 0) {
+    return { status: 'info', message: 'No TLS-RPT record, no reports about TLS failures' };
+  }
+  if (records.length > 1) {
+    return { status: 'fail', message: `_smtp._tls.${domain} has ${records.length} records` };
+  }
+
+  const uris = (parseDkimTags(records[0]).rua || '').split(',').filter(uri => uri);
+  if (uris.length === 0) {
+    return { status: 'fail', message: 'The TLS-RPT record has no rua= address' };
+  }
+  const invalid = uris.filter(uri => !/^(mailto:[^@\s]+@[^@\s]+|https:\/\/\S+)$/i.test(uri));
+  if (invalid.length > 0) {
+    return { status: 'fail', message: `Invalid TLS-RPT rua= URIs: ${invalid.join(', ')}` };
+  }
+  return { status: 'pass', message: `TLS reports are sent to ${uris.join(', ')}` };
+}
+
+/**
+ * Check the syntax of the BIMI record, and that the DMARC policy allows logos to be shown
+ */
+async function checkBimi(resolver: SpfDnsResolver, domain: string): Promise<CheckResult> {
+  const records = await lookupVersionedTxt(resolver, `default._bimi.${domain}`, 'BIMI1');
+  if (records.length === 0) {
+    return { status: 'info', message: 'No BIMI record, no logo is shown next to messages' };
+  }
+  if (records.length > 1) {
+    return { status: 'fail', message: `default._bimi.${domain} has ${records.length} records` };
+  }
+
+  const tags = parseDkimTags(records[0]);
+  const logos = (tags.l || '').split(',').filter(uri => uri);
+  if (tags.l === undefined || logos.some(uri => !/^https:\/\/\S+\.svg$/i.test(uri))) {
+    return { status: 'fail', message: 'The BIMI logo (l=) must be an HTTPS URL of an SVG file' };
+  }
+  if (tags.a && !/^https:\/\/\S+$/i.test(tags.a)) {
+    return { status: 'fail', message: 'The BIMI certificate (a=) must be an HTTPS URL' };
+  }
+
+  const details: string[] = [];
+  const dmarc = await lookupDmarcRecord(domain, resolver);
+  const dmarcRecord = dmarc ? parseDmarcRecord(dmarc) : undefined;
+  if (!dmarcRecord || dmarcRecord.policy === 'none' || dmarcRecord.percentage < 100) {
+    details.push('BIMI needs a DMARC policy of quarantine or reject applied to all messages');
+  }
+  if (!tags.a) {
+    details.push('Without a mark certificate (a=), most mailbox providers do not show the logo');
+  }
+  return {
+    status: details.length > 0 ? 'warn' : 'pass',
+    message: `BIMI logo ${logos.join(', ') || 'declined (empty l=)'}`,
+    details,
+  };
+}
+
+/**
+ * Look up an address in DNS blocklists
+ * @param ip Sending address
+ * @param zones DNSBL zones
+ */
+async function checkDnsbl(
+  resolver: SpfDnsResolver,
+  ip: string,
+  zones: string[]
+): Promise<CheckResult> {
+  if (isPrivateIP(ip)) {
+    return { status: 'info', message: 'Private address, not looked up' };
+  }
+
+  const reversed = net.isIPv6(ip)
+    ? ipv6Nibbles(ip).split('.').reverse().join('.')
+    : ip.split('.').reverse().join('.');
+  const listed: string[] = [];
+  const details: string[] = [];
+  for (const zone of zones) {
+    try {
+      const answers = await lookup(() => resolver.resolve4(`${reversed}.${zone}`));
+      // Answers outside 127.0.0.0/24 are errors, e.g. Spamhaus refusing public resolvers
+      const codes = answers.filter(answer => answer.startsWith('127.0.0.'));
+      if (codes.length > 0) {
+        listed.push(zone);
+        details.push(`${zone}: listed (${codes.join(', ')})`);
+      } else if (answers.length > 0) {
+        details.push(`${zone}: query refused (${answers.join(', ')}), use your own resolver`);
+      }
+    } catch (error) {
+      details.push(`${zone}: lookup failed (${(error as Error).message})`);
+    }
+  }
+
+  if (listed.length > 0) {
+    return { status: 'fail', message: `Listed on ${listed.join(', ')}`, details };
+  }
+  return {
+    status: details.length > 0 ? 'warn' : 'pass',
+    message: `Not listed on ${zones.length - details.length} of ${zones.length} blocklists`,
+    details,
+  };
+}
+
+/**
+ * Audit the deliverability setup: authentication records, reverse DNS, the EHLO name, MX,
+ * MTA-STS, TLS-RPT, BIMI and DNS blocklists
+ * @param config TinkSES configuration
+ * @param options Domains, blocklists and lookups to use
+ */
+export async function runDoctor(
+  config: TinkSESConfig,
+  options: DoctorOptions = {}
+): Promise<DoctorReport> {
+  const resolver = options.resolver || defaultSpfResolver;
+  const fetcher = options.fetcher || defaultMtaStsFetcher;
+  const domainConfigs = getDomainConfigs(config);
+  const domains = options.domains || Object.keys(domainConfigs);
+  const checks: DoctorCheck[] = [];
+
+  const run = async (check: string, subject: string, fn: () => Promise<CheckResult>) => {
+    let result: CheckResult;
+    try {
+      result = await fn();
+    } catch (error) {
+      result = { status: 'fail', message: `Check failed: ${(error as Error).message}` };
+    }
+    if (!result.details?.length) delete result.details;
+    checks.push({ check, subject, ...result });
+  };
+
+  for (const domain of domains) {
+    const { dkim, dmarc } = domainConfigs[domain];
+    const ips = getDomainIps(config, domain);
+    await run('spf', domain, async () =>
+      fromVerification(await verifySpfRecord(domain, ips, resolver))
+    );
+    for (const key of [dkim, dkim.secondary].filter(key => !!key)) {
+      await run('dkim', `${key.selector}._domainkey.${domain}`, async () =>
+        fromVerification(await verifyDkimRecord(domain, key.selector, key.publicKey))
+      );
+    }
+    await run('dmarc', domain, async () =>
+      fromVerification(await verifyDmarcRecord(domain, dmarc, resolver))
+    );
+    await run('mx', domain, () => checkMx(resolver, domain));
+    await run('mta-sts', domain, () => checkMtaSts(resolver, fetcher, domain));
+    await run('tls-rpt', domain, () => checkTlsRpt(resolver, domain));
+    await run('bimi', domain, () => checkBimi(resolver, domain));
+  }
+
+  // Addresses and EHLO names are shared between domains, each is checked once
+  const ehloNames = new Map<string, string[]>();
+  const ipNames = new Map<string, string[]>();
+  const poolAddresses = new Map<string, string[]>();
+  for (const domain of domains) {
+    const ips = getDomainIps(config, domain);
+    let sources: OutboundAddress[] = ips.map(address => ({ address }));
+    try {
+      const pool = getIpPool(config, domain);
+      if (pool) {
+        sources = pool.addresses;
+        for (const { address } of pool.addresses) {
+          poolAddresses.set(address, [...new Set([...(poolAddresses.get(address) || []), ...ips])]);
+        }
+      }
+    } catch (error) {
+      await run('ip-pool', domain, async () => ({
+        status: 'fail',
+        message: (error as Error).message,
+      }));
+    }
+
+    for (const source of sources) {
+      const name = getEhloName(config, `postmaster@${domain}`, source).toLowerCase();
+      // Behind NAT, receivers see the public addresses of the domain
+      for (const ip of isPrivateIP(source.address) ? ips : [source.address]) {
+        ehloNames.set(name, [...(ehloNames.get(name) || []), ip]);
+        ipNames.set(ip, [...(ipNames.get(ip) || []), name]);
+      }
+    }
+  }
+
+  if (poolAddresses.size > 0) {
+    const localAddresses =
+      options.localAddresses ||
+      getNetworkInterfaces().flatMap(netInterface => [...netInterface.ipv4, ...netInterface.ipv6]);
+    for (const [address, ips] of poolAddresses) {
+      await run('ip-pool', address, async () => checkPoolAddress(address, localAddresses, ips));
+    }
+  }
+
+  for (const [name, ips] of ehloNames) {
+    await run('ehlo', name, () => checkEhloName(resolver, name, ips));
+  }
+  for (const [ip, names] of ipNames) {
+    await run('fcrdns', ip, () => checkReverseDns(resolver, ip, names));
+  }
+  for (const ip of ipNames.keys()) {
+    await run('dnsbl', ip, () =>
+      checkDnsbl(resolver, ip, options.dnsblZones || DEFAULT_DNSBL_ZONES)
+    );
+  }
+
+  const summary: Record<DoctorStatus, number> = { pass: 0, info: 0, warn: 0, fail: 0 };
+  checks.forEach(check => summary[check.status]++);
+  return { checks, summary };
+}
@@ -0,0 +1,313 @@
+import crypto from 'crypto';
+import http from 'http';
+import { SendMailOptions } from 'nodemailer';
+import addressparser from 'nodemailer/lib/addressparser/index.js';
+import {
+  getDomainConfig,
+  getHttpApiConfig,
+  getSuppressionConfig,
+  HttpApiConfig,
+  TinkSESConfig,
+} from './config.js';
+import { buildMessage } from './delivery.js';
+import { buildReceivedHeader, getHeader, removeHeader } from './message.js';
+import { InvalidRecipientError, MailPipeline } from './pipeline.js';
+import { authenticateApiKey } from './api-keys.js';
+import { matchesAllowedSenders } from './users.js';
+import { Logger, logger } from './logger.js';
+import { messagesAccepted } from './metrics.js';
+
+const log = logger.child({ component: 'http' });
+
+type AddressField = string | string[];
+
+/**
+ * Body of `POST /v1/messages`, either the message fields or a raw MIME message
+ */
+export interface SendMessageRequest {
+  from?: string;
+  to?: AddressField;
+  cc?: AddressField;
+  bcc?: AddressField;
+  replyTo?: AddressField;
+  subject?: string;
+  text?: string;
+  html?: string;
+  headers?: Record<string, string>;
+  attachments?: {
+    filename?: string;
+    /** Base64 encoded content */
+    content: string;
+    contentType?: string;
+    /** Content-ID for inline images */
+    cid?: string;
+  }[];
+  /** Base64 encoded MIME message, envelope addresses default to its headers */
+  raw?: string;
+}
+
+/**
+ * Error answered with an HTTP status and a JSON body
+ */
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * Get the plain addresses of an address field
+ */
+function parseAddresses(field: AddressField | undefined): string[] {
+  if (!field) return [];
+  const value = Array.isArray(field) ? field.join(', ') : field;
+  if (typeof value !== 'string') {
+    throw new HttpError(400, 'Address fields must be strings or arrays of strings');
+  }
+
+  return addressparser(value, { flatten: true }).map(({ address }) => {
+    if (!/^[^\s@<>]+@[^\s@<>]+$/.test(address)) {
+      throw new HttpError(400, `Invalid address: ${address || value}`);
+    }
+    return address;
+  });
+}
+
+/**
+ * Build the envelope and raw message of a request
+ * @param body Request body
+ */
+async function buildRequestMessage(
+  body: SendMessageRequest
+): Promise<{ from: string; recipients: string[]; message: Buffer }> {
+  if (typeof body.raw === 'string') {
+    const raw = Buffer.from(body.raw, 'base64');
+    const from = parseAddresses(body.from || getHeader(raw, 'from'))[0];
+    const recipients = body.to
+      ? [...parseAddresses(body.to), ...parseAddresses(body.cc), ...parseAddresses(body.bcc)]
+      : ['to', 'cc', 'bcc'].flatMap(name => parseAddresses(getHeader(raw, name)));
+    // Every recipient would see the blind copied addresses
+    return { from, recipients, message: removeHeader(raw, 'bcc') };
+  }
+
+  if (body.attachments !== undefined && !Array.isArray(body.attachments)) {
+    throw new HttpError(400, 'Attachments must be an array');
+  }
+
+  const options: SendMailOptions = {
+    from: body.from,
+    to: body.to,
+    cc: body.cc,
+    bcc: body.bcc,
+    replyTo: body.replyTo,
+    subject: body.subject,
+    text: body.text,
+    html: body.html,
+    headers: body.headers,
+    attachments: (body.attachments || []).map(attachment => {
+      if (typeof attachment?.content !== 'string') {
+        throw new HttpError(400, 'Attachment content must be a base64 encoded string');
+      }
+      return {
+        filename: attachment.filename,
+        content: Buffer.from(attachment.content, 'base64'),
+        contentType: attachment.contentType,
+        cid: attachment.cid,
+      };
+    }),
+  };
+
+  return {
+    from: parseAddresses(body.from)[0],
+    recipients: [
+      ...parseAddresses(body.to),
+      ...parseAddresses(body.cc),
+      ...parseAddresses(body.bcc),
+    ],
+    message: await buildMessage(options),
+  };
+}
+
+/**
+ * Read a request body up to a maximum size
+ */
+function readBody(req: http.IncomingMessage, maxSize: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxSize) {
+        // Discard the rest of the body, the connection is closed after the response
+        req.off('data', onData);
+        req.resume();
+        reject(new HttpError(413, `Request body exceeds ${maxSize} bytes`));
+        return;
+      }
+      chunks.push(chunk);
+    };
+
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * HTTP JSON API to send messages, an alternative to SMTP submission
+ */
+export class HttpApiServer {
+  private config: TinkSESConfig;
+  private httpConfig: HttpApiConfig;
+  private pipeline: MailPipeline;
+  private server: http.Server;
+
+  /**
+   * @param config TinkSES configuration
+   * @param pipeline Pipeline accepted messages are submitted to
+   */
+  constructor(config: TinkSESConfig, pipeline: MailPipeline) {
+    this.config = config;
+    this.httpConfig = getHttpApiConfig(config);
+    this.pipeline = pipeline;
+    this.server = http.createServer((req, res) => this.handleRequest(req, res));
+
+    this.server.on('error', err => {
+      log.error('HTTP API error', { error: err });
+    });
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+    const requestId = crypto.randomBytes(8).toString('hex');
+    const requestLog = log.child({ requestId });
+    requestLog.debug('Request', {
+      method: req.method,
+      url: req.url,
+      remoteAddress: req.socket.remoteAddress,
+    });
+
+    try {
+      const { pathname } = new URL(req.url || '/', 'http://localhost');
+      if (pathname !== '/v1/messages') {
+        throw new HttpError(404, 'Not found');
+      }
+      if (req.method !== 'POST') {
+        res.setHeader('Allow', 'POST');
+        throw new HttpError(405, 'Method not allowed');
+      }
+
+      const result = await this.sendMessage(req, requestId, requestLog);
+      this.respond(res, 202, result);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        if (error.status === 413) res.setHeader('Connection', 'close');
+        this.respond(res, error.status, { error: error.message });
+        return;
+      }
+      if (error instanceof InvalidRecipientError) {
+        this.respond(res, 400, { error: error.message });
+        return;
+      }
+      requestLog.error('Error processing request', { error });
+      this.respond(res, 500, { error: 'Error processing message' });
+    }
+  }
+
+  /**
+   * Handle `POST /v1/messages`
+   * @param requestId ID of the request, used in the Received header
+   * @param requestLog Logger of the request
+   * @returns Message-ID and queue ID of the accepted message, and the dropped suppressed
+   * recipients
+   */
+  private async sendMessage(req: http.IncomingMessage, requestId: string, requestLog: Logger) {
+    const token = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization || '')?.[1];
+    const apiKey = token ? authenticateApiKey(this.config, token) : undefined;
+    if (!apiKey) {
+      requestLog.warn('Invalid API key', { remoteAddress: req.socket.remoteAddress });
+      throw new HttpError(401, 'Invalid or missing API key');
+    }
+
+    let body: SendMessageRequest;
+    try {
+      body = JSON.parse((await readBody(req, this.httpConfig.maxBodySize)).toString('utf8'));
+    } catch (error) {
+      if (error instanceof HttpError) throw error;
+      throw new HttpError(400, 'Request body must be valid JSON');
+    }
+    if (!body || typeof body !== 'object') {
+      throw new HttpError(400, 'Request body must be a JSON object');
+    }
+
+    const { from, recipients, message } = await buildRequestMessage(body);
+    if (!from) {
+      throw new HttpError(400, 'Missing sender address');
+    }
+    if (recipients.length === 0) {
+      throw new HttpError(400, 'Missing recipients');
+    }
+
+    // The same sender checks as for SMTP submission
+    const domain = from.split('@')[1];
+    if (!getDomainConfig(this.config, domain)) {
+      requestLog.warn('Sender domain not allowed', { domain });
+      throw new HttpError(403, `Sending from domain ${domain} not allowed`);
+    }
+    if (!matchesAllowedSenders(apiKey.allowedSenders, from)) {
+      requestLog.warn('Sender not allowed for API key', { apiKeyName: apiKey.name, from });
+      throw new HttpError(403, `Sending as ${from} not allowed`);
+    }
+
+    if (getSuppressionConfig(this.config).action === 'reject') {
+      const suppressed = recipients.find(address => this.pipeline.findSuppression(address));
+      if (suppressed) {
+        requestLog.info('Suppressed recipient rejected', { to: suppressed });
+        throw new HttpError(422, `Recipient ${suppressed} is on the suppression list`);
+      }
+    }
+
+    const { entry, messageId, suppressed } = await this.pipeline.submit(
+      from,
+      recipients,
+      message,
+      [
+        buildReceivedHeader({
+          remoteAddress: req.socket.remoteAddress || 'unknown',
+          by: this.config.domain,
+          protocol: 'HTTP',
+          id: requestId,
+          recipients,
+        }),
+      ],
+      requestLog.child({ apiKeyName: apiKey.name }),
+      `apikey:${apiKey.name}`
+    );
+    messagesAccepted.inc({ source: 'http' });
+
+    return {
+      messageId,
+      queueId: entry?.id,
+      suppressed: suppressed.length > 0 ? suppressed : undefined,
+    };
+  }
+
+  private respond(res: http.ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  public start(): void {
+    this.server.listen(this.httpConfig.port, this.httpConfig.host, () => {
+      log.info('HTTP API started', { listen: `${this.httpConfig.host}:${this.httpConfig.port}` });
+    });
+  }
+
+  public async stop(): Promise<void> {
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+    log.info('HTTP API stopped');
+  }
+}
@@ -1,15 +1,64 @@
 #!/usr/bin/env node
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import path from 'path';
 import fs from 'fs';
 import { fileURLToPath } from 'url';
 import process from 'process';
 import inquirer from 'inquirer';
-import { loadConfig, saveConfig, TinkSESConfig } from './config.js';
+import {
+  DkimConfig,
+  DmarcConfig,
+  getDeliveryModeConfig,
+  getDomainConfig,
+  getDomainConfigs,
+  getDomainIps,
+  getHttpApiConfig,
+  getLogConfig,
+  getMetricsConfig,
+  getQueueConfig,
+  getSuppressionConfig,
+  loadConfig,
+  saveConfig,
+  TinkSESConfig,
+} from './config.js';
 import { SmtpServer } from './smtp-server.js';
-import { generateDkimKeys, generateSpfRecord, generateDmarcRecord } from './dns-creation.js';
+import { HttpApiServer } from './http-api.js';
+import { MailPipeline } from './pipeline.js';
+import { MetricsServer } from './metrics.js';
+import {
+  generateDkimKeys,
+  generateDkimRecord,
+  generateSpfRecord,
+  generateDmarcRecord,
+} from './dns-creation.js';
+import {
+  completeDkimRotation,
+  generateRotationKey,
+  generateRotationSelector,
+  startDkimRotation,
+} from './dkim-rotation.js';
+import { DkimKeyType } from './dkim.js';
+import { loadDmarcReports, summarizeDmarcReports } from './dmarc-report.js';
+import { DEFAULT_DNSBL_ZONES, DoctorStatus, runDoctor } from './doctor.js';
+import { findIpPoolErrors } from './ip-pool.js';
 import { getAllIPs, testSmtpConnections, SmtpConnectionResult } from './network.js';
-import { generateDnsConfigurationTips, verifyDnsConfiguration } from './dns-verification.js';
+import {
+  generateDnsConfigurationTips,
+  testDkimSigning,
+  verifyDkimRecord,
+  verifyDnsConfiguration,
+} from './dns-verification.js';
+import { loadQueueEntries, summarizeQueue } from './queue.js';
+import { addUser, removeUser, setUserPassword } from './users.js';
+import { addApiKey, removeApiKey } from './api-keys.js';
+import {
+  formatSuppressionCsv,
+  parseSuppressionImport,
+  SuppressionList,
+  SuppressionReason,
+  suppressionReasons,
+} from './suppression.js';
+import { configureLogger, logger } from './logger.js';
 
 // Get directory name from import.meta.url
 const __filename = fileURLToPath(import.meta.url);
@@ -25,7 +74,33 @@ program
   .name('tinkses')
   .description('TinkSES - An open-source mail sending service')
   .version(packageJson.version)
-  .option('-c, --config <path>', 'Path to config file', './tinkses.config.json');
+  .option('-c, --config <path>', 'Path to config file', './tinkses.config.json')
+  .addOption(
+    new Option('--log-level <level>', 'Log level, overrides the config file').choices([
+      'debug',
+      'info',
+      'warn',
+      'error',
+    ])
+  )
+  .addOption(
+    new Option('--log-format <format>', 'Log format, overrides the config file').choices([
+      'text',
+      'json',
+    ])
+  );
+
+/**
+ * Configure logging from the config file and the command line flags
+ */
+function setupLogging(config: TinkSESConfig) {
+  const { logLevel, logFormat } = program.opts();
+  configureLogger({
+    ...getLogConfig(config),
+    ...(logLevel ? { level: logLevel } : {}),
+    ...(logFormat ? { format: logFormat } : {}),
+  });
+}
 
 // Init command to set up DKIM, detect IP, and generate DNS records
 program
@@ -88,7 +163,559 @@ program
       console.log('Consider the following options:');
       console.log('1. Contact your ISP to unblock port 25');
       console.log('2. Use a cloud provider or VPS where port 25 is not blocked');
-      console.log('3. Use a smart host or relay that allows connections on alternative ports');
+      console.log(
+        '3. Configure `smarthosts` to relay through a host that accepts connections on port 587 or 465'
+      );
+    }
+  });
+
+// Queue command to inspect messages waiting for delivery
+program
+  .command('queue')
+  .description('Show messages waiting for delivery, grouped by recipient domain')
+  .option('-l, --list', 'List every queued recipient')
+  .action(async options => {
+    const configPath = program.opts().config;
+    const config = loadConfig(configPath);
+    if (!config) {
+      process.exit(1);
+    }
+
+    const queueDir = path.resolve(getQueueConfig(config).dir);
+    const entries = loadQueueEntries(queueDir);
+    const stats = summarizeQueue(entries);
+    const domains = Object.keys(stats).sort();
+
+    console.log(`Queue directory: ${queueDir}`);
+    console.log(`${entries.length} messages in queue\n`);
+
+    domains.forEach(domain => {
+      const domainStats = stats[domain];
+      console.log(`${domain}: ${domainStats.queued} queued, ${domainStats.deferred} deferred`);
+      console.log(`  Oldest: ${new Date(domainStats.oldest).toISOString()}`);
+      console.log(`  Next attempt: ${new Date(domainStats.nextAttempt).toISOString()}`);
+      if (domainStats.lastError) {
+        console.log(`  Last error: ${domainStats.lastError}`);
+      }
+    });
+
+    if (options.list) {
+      console.log('\nQueued recipients:');
+      entries.forEach(entry => {
+        entry.recipients
+          .filter(recipient => recipient.status === 'queued' || recipient.status === 'deferred')
+          .forEach(recipient => {
+            console.log(
+              `${entry.id} ${entry.from} -> ${recipient.address} [${recipient.status}, ${recipient.attempts} attempts]`
+            );
+          });
+      });
+    }
+  });
+
+/**
+ * Prompt for a new password twice
+ * @returns The entered password
+ */
+async function promptNewPassword(): Promise<string> {
+  const answers = await inquirer.prompt([
+    {
+      type: 'password',
+      name: 'password',
+      message: 'Password:',
+      mask: '*',
+      validate: input => (input ? true : 'Password cannot be empty'),
+    },
+    {
+      type: 'password',
+      name: 'confirm',
+      message: 'Confirm password:',
+      mask: '*',
+    },
+  ]);
+
+  if (answers.password !== answers.confirm) {
+    console.error('Passwords do not match.');
+    process.exit(1);
+  }
+  return answers.password;
+}
+
+/**
+ * Load the config file, change it and save it back
+ * @param update Function applying the change, may throw to abort
+ */
+async function updateConfig(update: (config: TinkSESConfig) => void | Promise<void>) {
+  const configPath = program.opts().config;
+  const config = loadConfig(configPath);
+  if (!config) {
+    process.exit(1);
+  }
+
+  try {
+    await update(config);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  saveConfig(configPath, config);
+  console.log(`Configuration saved to ${configPath}`);
+}
+
+// User commands to manage SMTP credentials
+const userCommand = program.command('user').description('Manage SMTP users');
+
+userCommand
+  .command('add <username>')
+  .description('Add an SMTP user')
+  .option(
+    '-s, --senders <senders>',
+    'Comma-separated sender addresses or domains the user may send from'
+  )
+  .action(async (username: string, options) => {
+    const senders = options.senders
+      ? options.senders.split(',').map((sender: string) => sender.trim())
+      : [];
+    const password = await promptNewPassword();
+    await updateConfig(config => {
+      addUser(config, username, password, senders);
+      console.log(`User '${username}' added.`);
+    });
+  });
+
+userCommand
+  .command('remove <username>')
+  .description('Remove an SMTP user')
+  .action(async (username: string) => {
+    await updateConfig(config => {
+      removeUser(config, username);
+      console.log(`User '${username}' removed.`);
+    });
+  });
+
+userCommand
+  .command('passwd <username>')
+  .description('Change the password of an SMTP user')
+  .action(async (username: string) => {
+    const password = await promptNewPassword();
+    await updateConfig(config => {
+      setUserPassword(config, username, password);
+      console.log(`Password of user '${username}' changed.`);
+    });
+  });
+
+userCommand
+  .command('list')
+  .description('List SMTP users')
+  .action(async () => {
+    const config = loadConfig(program.opts().config);
+    if (!config) {
+      process.exit(1);
+    }
+
+    const users = config.users || [];
+    if (users.length === 0 && !config.username) {
+      console.log('No users configured.');
+    }
+    users.forEach(user => {
+      const senders = user.allowedSenders?.length ? user.allowedSenders.join(', ') : 'any';
+      console.log(`${user.username} (senders: ${senders})`);
+    });
+    if (config.username) {
+      console.log(`${config.username} (plaintext password in config, senders: any)`);
+    }
+  });
+
+// API key commands to manage access to the HTTP API
+const apiKeyCommand = program.command('apikey').description('Manage HTTP API keys');
+
+apiKeyCommand
+  .command('add <name>')
+  .description('Generate an HTTP API key')
+  .option(
+    '-s, --senders <senders>',
+    'Comma-separated sender addresses or domains the key may send from'
+  )
+  .action(async (name: string, options) => {
+    const senders = options.senders
+      ? options.senders.split(',').map((sender: string) => sender.trim())
+      : [];
+    await updateConfig(config => {
+      const key = addApiKey(config, name, senders);
+      console.log(`API key '${name}' added. Store it now, it is not shown again:`);
+      console.log(key);
+      if (!getHttpApiConfig(config).enabled) {
+        console.log('Note: the HTTP API is disabled, set "http.enabled" to true to use it.');
+      }
+    });
+  });
+
+apiKeyCommand
+  .command('remove <name>')
+  .description('Remove an HTTP API key')
+  .action(async (name: string) => {
+    await updateConfig(config => {
+      removeApiKey(config, name);
+      console.log(`API key '${name}' removed.`);
+    });
+  });
+
+apiKeyCommand
+  .command('list')
+  .description('List HTTP API keys')
+  .action(async () => {
+    const config = loadConfig(program.opts().config);
+    if (!config) {
+      process.exit(1);
+    }
+
+    const apiKeys = config.apiKeys || [];
+    if (apiKeys.length === 0) {
+      console.log('No API keys configured.');
+    }
+    apiKeys.forEach(apiKey => {
+      const senders = apiKey.allowedSenders?.length ? apiKey.allowedSenders.join(', ') : 'any';
+      console.log(`${apiKey.name} (senders: ${senders})`);
+    });
+  });
+
+// DKIM commands to manage signing keys
+const dkimCommand = program.command('dkim').description('Manage DKIM keys');
+
+dkimCommand
+  .command('rotate')
+  .description(
+    'Rotate the DKIM key of a domain. The new key is used once its DNS record is published, run again to check.'
+  )
+  .option('-d, --domain <domain>', 'Sending domain, defaults to the primary domain')
+  .option('-s, --selector <selector>', 'Selector of the new key, defaults to the current date')
+  .option('--secondary', 'Rotate the secondary key, e.g. the Ed25519 key next to an RSA key')
+  .option('-w, --wait', 'Wait until the DNS record of the new key is published')
+  .action(async options => {
+    const configPath = program.opts().config;
+    const config = loadConfig(configPath);
+    if (!config) {
+      process.exit(1);
+    }
+
+    const domain = (options.domain || config.domain).toLowerCase();
+    const dkim = getDomainConfig(config, domain)?.dkim;
+    if (!dkim) {
+      console.error(`Error: ${domain} is not a sending domain.`);
+      process.exit(1);
+    }
+    const keyConfig = options.secondary ? dkim.secondary : dkim;
+    if (!keyConfig) {
+      console.error(`Error: ${domain} has no secondary DKIM key.`);
+      process.exit(1);
+    }
+
+    // The new key is saved before checking DNS, so the rotation can be continued later
+    if (!keyConfig.next) {
+      const selector =
+        options.selector ||
+        generateRotationSelector([dkim.selector, dkim.secondary?.selector || '']);
+      try {
+        startDkimRotation(
+          keyConfig,
+          generateRotationKey(keyConfig, selector, path.dirname(path.resolve(configPath)))
+        );
+      } catch (error) {
+        console.error(`Error: ${(error as Error).message}`);
+        process.exit(1);
+      }
+      saveConfig(configPath, config);
+      console.log(`New DKIM key with selector '${selector}' saved to ${configPath}`);
+    } else if (options.selector && options.selector !== keyConfig.next.selector) {
+      console.error(`Error: A rotation to selector '${keyConfig.next.selector}' is in progress.`);
+      process.exit(1);
+    }
+
+    const next = keyConfig.next!;
+    console.log("\nAdd this TXT record to your domain's DNS configuration:\n");
+    console.log(
+      `${next.selector}._domainkey.${domain}. IN TXT "${generateDkimRecord(next.publicKey)}"\n`
+    );
+
+    let result = await completeDkimRotation(domain, keyConfig);
+    while (!result.isValid && options.wait) {
+      console.log(`${result.message} Checking again in 1 minute...`);
+      await new Promise(resolve => setTimeout(resolve, 60 * 1000));
+      result = await completeDkimRotation(domain, keyConfig);
+    }
+
+    if (!result.isValid) {
+      console.log(result.message);
+      console.log(`Messages are signed with the current key '${keyConfig.selector}' until then.`);
+      console.log('Run this command again once the record is published.');
+      return;
+    }
+
+    saveConfig(configPath, config);
+    const previous = keyConfig.previous!;
+    console.log(`The DNS record is published, '${keyConfig.selector}' is now the signing key.`);
+    result.warnings?.forEach(warning => console.log(`Warning: ${warning}`));
+    console.log('Restart TinkSES to sign with the new key.');
+    console.log(
+      `The record ${previous.selector}._domainkey.${domain} can be removed after ${previous.removeAfter}.`
+    );
+  });
+
+dkimCommand
+  .command('test')
+  .description(
+    'Sign a sample message with the DKIM keys of a domain and verify it against the published DNS records'
+  )
+  .option('-d, --domain <domain>', 'Sending domain, defaults to the primary domain')
+  .action(async options => {
+    const config = loadConfig(program.opts().config);
+    if (!config) {
+      process.exit(1);
+    }
+
+    const domain = (options.domain || config.domain).toLowerCase();
+    const dkim = getDomainConfig(config, domain)?.dkim;
+    if (!dkim) {
+      console.error(`Error: ${domain} is not a sending domain.`);
+      process.exit(1);
+    }
+
+    let passed = true;
+    for (const key of [dkim, dkim.secondary].filter(key => !!key)) {
+      const recordResult = await verifyDkimRecord(domain, key.selector, key.publicKey);
+      const signingResult = await testDkimSigning(domain, key);
+      console.log(`${key.selector}._domainkey.${domain}:`);
+      for (const result of [recordResult, signingResult]) {
+        console.log(`  ${result.isValid ? '✅' : '❌'} ${result.message}`);
+      }
+      recordResult.warnings?.forEach(warning => console.log(`  ⚠️ ${warning}`));
+      passed &&= recordResult.isValid && signingResult.isValid;
+    }
+    if (!passed) {
+      process.exitCode = 1;
+    }
+  });
+
+// Doctor command to audit what receivers check before accepting mail
+program
+  .command('doctor')
+  .description(
+    'Audit deliverability: SPF, DKIM, DMARC, reverse DNS, the EHLO name, MX, MTA-STS, TLS-RPT, BIMI and DNS blocklists. Exits with 1 on failures and 2 on warnings.'
+  )
+  .option('-d, --domain <domain>', 'Only check this sending domain')
+  .option('--dnsbl <zones>', 'Comma-separated DNS blocklist zones', DEFAULT_DNSBL_ZONES.join(','))
+  .option('--json', 'Output JSON instead of text')
+  .action(async options => {
+    const config = loadConfig(program.opts().config);
+    if (!config) {
+      process.exit(1);
+    }
+
+    let domains: string[] | undefined;
+    if (options.domain) {
+      const domain = options.domain.toLowerCase();
+      if (!getDomainConfig(config, domain)) {
+        console.error(`Error: ${domain} is not a sending domain.`);
+        process.exit(1);
+      }
+      domains = [domain];
+    }
+
+    const report = await runDoctor(config, {
+      domains,
+      dnsblZones: options.dnsbl
+        .split(',')
+        .map((zone: string) => zone.trim())
+        .filter((zone: string) => zone),
+    });
+
+    if (options.json) {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      const icons: Record<DoctorStatus, string> = {
+        pass: '✅',
+        info: 'ℹ️ ',
+        warn: '⚠️ ',
+        fail: '❌',
+      };
+      report.checks.forEach(check => {
+        console.log(`${icons[check.status]} [${check.check}] ${check.subject}: ${check.message}`);
+        check.details?.forEach(detail => console.log(`     ${detail}`));
+      });
+      const { pass, info, warn, fail } = report.summary;
+      console.log(`\n${pass} passed, ${warn} warnings, ${fail} failed, ${info} not set up`);
+    }
+
+    if (report.summary.fail > 0) {
+      process.exitCode = 1;
+    } else if (report.summary.warn > 0) {
+      process.exitCode = 2;
+    }
+  });
+
+// Command to read the DMARC aggregate reports sent to the `rua` address
+program
+  .command('dmarc-report <paths...>')
+  .description(
+    'Summarize DMARC aggregate reports from XML, .gz and .zip files, emails with reports attached and maildirs'
+  )
+  .option('--json', 'Output JSON instead of a table')
+  .action(async (paths: string[], options) => {
+    const config = loadConfig(program.opts().config);
+    if (!config) {
+      process.exit(1);
+    }
+
+    let loaded: Awaited<ReturnType<typeof loadDmarcReports>>;
+    try {
+      loaded = await loadDmarcReports(paths);
+    } catch (error) {
+      console.error(`Error reading reports: ${(error as Error).message}`);
+      process.exit(1);
+    }
+    const { reports, errors } = loaded;
+    errors.forEach(({ file, error }) => console.error(`Skipped ${file}: ${error}`));
+
+    const knownIps = Object.keys(getDomainConfigs(config)).flatMap(domain =>
+      getDomainIps(config, domain)
+    );
+    const sources = summarizeDmarcReports(reports, knownIps);
+    const begin = Math.min(...reports.map(report => report.begin));
+    const end = Math.max(...reports.map(report => report.end));
+    const period =
+      reports.length > 0
+        ? { begin: new Date(begin * 1000).toISOString(), end: new Date(end * 1000).toISOString() }
+        : undefined;
+
+    if (options.json) {
+      console.log(JSON.stringify({ reports: reports.length, period, sources }, null, 2));
+      return;
+    }
+
+    console.log(
+      `${reports.length} reports${period ? ` from ${period.begin} to ${period.end}` : ''}\n`
+    );
+    if (sources.length === 0) {
+      return;
+    }
+
+    const rows = [
+      ['Source IP', 'Reporter', 'Messages', 'DMARC pass', 'DMARC fail', 'DKIM pass', 'SPF pass'],
+      ...sources.map(source => [
+        source.sourceIp,
+        source.reporter,
+        ...[source.messages, source.pass, source.fail, source.dkimPass, source.spfPass].map(String),
+      ]),
+    ];
+    const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+    rows.forEach((row, i) => {
+      const cells = row.map((cell, column) =>
+        column < 2 ? cell.padEnd(widths[column]) : cell.padStart(widths[column])
+      );
+      const marker = i > 0 && !sources[i - 1].known ? '  ⚠️  not in config.ip' : '';
+      console.log(`${cells.join('  ')}${marker}`);
+    });
+
+    const unknown = new Set(sources.filter(source => !source.known).map(source => source.sourceIp));
+    if (unknown.size > 0) {
+      console.log(
+        `\n${unknown.size} source(s) are not configured sending addresses: other services sending as your domain, forwarders, or spoofing.`
+      );
+    }
+  });
+
+/**
+ * Open the suppression list of the config file
+ */
+function openSuppressionList(): SuppressionList {
+  const config = loadConfig(program.opts().config);
+  if (!config) {
+    process.exit(1);
+  }
+  return new SuppressionList(getSuppressionConfig(config).file);
+}
+
+// Suppression commands to manage addresses mail is no longer sent to
+const suppressionCommand = program
+  .command('suppression')
+  .description('Manage the suppression list of bounced and complained addresses');
+
+suppressionCommand
+  .command('list')
+  .description('List suppressed addresses')
+  .action(() => {
+    const entries = openSuppressionList().list();
+    if (entries.length === 0) {
+      console.log('No suppressed addresses.');
+    }
+    entries.forEach(entry => {
+      const expires = entry.expiresAt ? `, expires ${entry.expiresAt}` : '';
+      console.log(`${entry.address} (${entry.reason}, added ${entry.createdAt}${expires})`);
+      if (entry.response) {
+        console.log(`  ${entry.response}`);
+      }
+    });
+  });
+
+suppressionCommand
+  .command('add <addresses...>')
+  .description('Suppress addresses')
+  .addOption(
+    new Option('-r, --reason <reason>', 'Reason of the entries')
+      .choices(suppressionReasons)
+      .default('manual')
+  )
+  .action((addresses: string[], options) => {
+    const reason: SuppressionReason = options.reason;
+    openSuppressionList().add(...addresses.map(address => ({ address, reason })));
+    console.log(`${addresses.length} address(es) suppressed.`);
+  });
+
+suppressionCommand
+  .command('remove <addresses...>')
+  .description('Remove addresses from the suppression list')
+  .action((addresses: string[]) => {
+    const removed = openSuppressionList().remove(...addresses);
+    console.log(`${removed} address(es) removed.`);
+  });
+
+suppressionCommand
+  .command('import <file>')
+  .description('Import addresses, one per line or CSV with the address in the first column')
+  .addOption(
+    new Option('-r, --reason <reason>', 'Reason of entries without one')
+      .choices(suppressionReasons)
+      .default('manual')
+  )
+  .action((file: string, options) => {
+    let text: string;
+    try {
+      text = fs.readFileSync(file, 'utf8');
+    } catch (error) {
+      console.error(`Error reading ${file}: ${(error as Error).message}`);
+      process.exit(1);
+    }
+
+    const entries = parseSuppressionImport(text).map(({ address, reason }) => ({
+      address,
+      reason: reason || (options.reason as SuppressionReason),
+    }));
+    openSuppressionList().add(...entries);
+    console.log(`${entries.length} address(es) imported.`);
+  });
+
+suppressionCommand
+  .command('export [file]')
+  .description('Export the suppression list as CSV, to standard output without a file')
+  .action((file?: string) => {
+    const entries = openSuppressionList().list();
+    const csv = formatSuppressionCsv(entries);
+    if (file) {
+      fs.writeFileSync(file, csv);
+      console.log(`${entries.length} address(es) exported to ${file}.`);
+    } else {
+      process.stdout.write(csv);
     }
   });
 
@@ -108,25 +735,59 @@ program.action(async () => {
     return await initConfig(configPath);
   }
 
-  console.log('Starting TinkSES server...');
+  setupLogging(config);
+  logger.info('Starting TinkSES server...');
 
-  // Verify DNS configuration before starting
-  const verificationResult = await verifyDnsConfiguration(config, false);
+  const deliveryMode = getDeliveryModeConfig(config);
+  if (deliveryMode.mode === 'redirect' && !deliveryMode.redirectTo) {
+    logger.error('The redirect delivery mode needs a "delivery.redirectTo" address.');
+    process.exit(1);
+  }
+  if (deliveryMode.mode !== 'deliver') {
+    logger.warn('Messages are not delivered to their recipients', { mode: deliveryMode.mode });
+  }
 
-  // Add option to verify DNS in strict mode
-  if (process.env.TINKSES_STRICT_DNS_CHECK === 'true' && !verificationResult) {
-    console.error('DNS verification failed in strict mode. Server startup aborted.');
+  const ipPoolErrors = findIpPoolErrors(config);
+  if (ipPoolErrors.length > 0) {
+    for (const error of ipPoolErrors) {
+      logger.error(error);
+    }
     process.exit(1);
   }
 
+  // Sink and relay modes never send to other servers, their DNS records do not matter
+  if (deliveryMode.mode === 'deliver' || deliveryMode.mode === 'redirect') {
+    // Verify DNS configuration before starting
+    const verificationResult = await verifyDnsConfiguration(config, false);
+
+    // Add option to verify DNS in strict mode
+    if (process.env.TINKSES_STRICT_DNS_CHECK === 'true' && !verificationResult) {
+      logger.error('DNS verification failed in strict mode. Server startup aborted.');
+      process.exit(1);
+    }
+  }
+
+  // Both the SMTP server and the HTTP API feed the same queue
+  const pipeline = new MailPipeline(config);
+  pipeline.start();
+
   // Create SMTP server
-  const smtpServer = new SmtpServer(config);
+  const smtpServer = new SmtpServer(config, pipeline);
   smtpServer.start();
 
+  const httpApi = getHttpApiConfig(config).enabled
+    ? new HttpApiServer(config, pipeline)
+    : undefined;
+  httpApi?.start();
+
+  const metricsServer = getMetricsConfig(config).enabled ? new MetricsServer(config) : undefined;
+  metricsServer?.start();
+
   // Handle shutdown
   const shutdown = async () => {
-    console.log('Shutting down TinkSES...');
-    await smtpServer.stop();
+    logger.info('Shutting down TinkSES...');
+    await Promise.all([smtpServer.stop(), httpApi?.stop(), metricsServer?.stop()]);
+    await pipeline.stop();
     process.exit(0);
   };
 
@@ -137,16 +798,27 @@ program.action(async () => {
 });
 
 async function initConfig(configPath: string) {
-  let updatedConfig: TinkSESConfig = await runInteractiveSetup();
-  updatedConfig = await completeInitialization(updatedConfig, configPath);
-  console.log(generateDnsConfigurationTips(updatedConfig, true, true, true));
+  const { config, dkimKeys } = await runInteractiveSetup();
+  const updatedConfig = await completeInitialization(config, configPath, dkimKeys);
+  for (const domain of Object.keys(getDomainConfigs(updatedConfig))) {
+    console.log(generateDnsConfigurationTips(updatedConfig, true, true, true, domain));
+  }
   console.log('\nInitialization complete! You can now start TinkSES with:');
   console.log(`npx tinkses -c ${configPath}`);
 }
 
+/**
+ * DKIM keys chosen during the interactive setup
+ */
+interface DkimKeyOptions {
+  /** `both` signs with an RSA key and a secondary Ed25519 key */
+  type: DkimKeyType | 'both';
+  rsaKeySize: number;
+}
+
 /**
  * Run interactive setup to configure TinkSES
- * @returns configuration
+ * @returns configuration and the DKIM keys to generate
  */
 async function runInteractiveSetup() {
   const answers = await inquirer.prompt([
@@ -162,12 +834,54 @@ async function runInteractiveSetup() {
         return true;
       },
     },
+    {
+      type: 'input',
+      name: 'extraDomains',
+      message: 'Additional sending domains (comma separated, leave empty for none):',
+      default: '',
+    },
     {
       type: 'input',
       name: 'selector',
       message: 'What DKIM selector would you like to use?',
       default: 'default',
     },
+    {
+      type: 'list',
+      name: 'dkimKeyType',
+      message: 'Which DKIM keys should messages be signed with?',
+      choices: [
+        { name: 'RSA, verified by all receivers', value: 'rsa' },
+        { name: 'RSA and Ed25519, two signatures per message', value: 'both' },
+        { name: 'Ed25519 only, not verified by all receivers', value: 'ed25519' },
+      ],
+      default: 'rsa',
+    },
+    {
+      type: 'list',
+      name: 'rsaKeySize',
+      message: 'What size should the RSA key have?',
+      choices: [2048, 3072, 4096].map(bits => ({ name: `${bits} bits`, value: bits })),
+      default: 2048,
+      when: answers => answers.dkimKeyType !== 'ed25519',
+    },
+    {
+      type: 'list',
+      name: 'dmarcPolicy',
+      message: 'Which DMARC policy should receivers apply to messages failing authentication?',
+      choices: [
+        { name: 'none: only report, the first stage of a rollout', value: 'none' },
+        { name: 'quarantine: failing messages go to spam', value: 'quarantine' },
+        { name: 'reject: failing messages are refused', value: 'reject' },
+      ],
+      default: 'none',
+    },
+    {
+      type: 'input',
+      name: 'dmarcReportTo',
+      message: 'Address DMARC aggregate reports are sent to (leave empty for none):',
+      default: answers => `dmarc-reports@${answers.domain}`,
+    },
     {
       type: 'input',
       name: 'port',
@@ -203,40 +917,83 @@ async function runInteractiveSetup() {
     },
   ]);
 
+  // With both key types, the Ed25519 key is a secondary key under its own selector
+  const createDkimConfig = (): DkimConfig => ({
+    privateKey: '',
+    publicKey: '',
+    selector: answers.selector,
+    ...(answers.dkimKeyType === 'both'
+      ? { secondary: { privateKey: '', publicKey: '', selector: `${answers.selector}-ed25519` } }
+      : {}),
+  });
+
+  const createDmarcConfig = (): DmarcConfig => ({
+    policy: answers.dmarcPolicy,
+    ...(answers.dmarcReportTo ? { reportTo: [answers.dmarcReportTo.trim()] } : {}),
+  });
+
+  const domains: TinkSESConfig['domains'] = {};
+  answers.extraDomains
+    .split(',')
+    .map((domain: string) => domain.trim().toLowerCase())
+    .filter((domain: string) => domain && domain !== answers.domain.toLowerCase())
+    .forEach((domain: string) => {
+      domains[domain] = { dkim: createDkimConfig(), dmarc: createDmarcConfig() };
+    });
+
   // Update config with user answers
-  return {
+  const config: TinkSESConfig = {
     domain: answers.domain,
     port: parseInt(answers.port),
     host: answers.host,
-    username: answers.username,
-    password: answers.password,
+    users: [],
     ip: [],
-    dkim: {
-      privateKey: '',
-      publicKey: '',
-      selector: answers.selector,
-    },
+    dkim: createDkimConfig(),
+    dmarc: createDmarcConfig(),
+    domains,
   };
+
+  // Only a hash of the password is stored
+  addUser(config, answers.username, answers.password);
+
+  const dkimKeys: DkimKeyOptions = {
+    type: answers.dkimKeyType,
+    rsaKeySize: answers.rsaKeySize || 2048,
+  };
+  return { config, dkimKeys };
 }
 
 /**
  * Complete the initialization process by generating keys and DNS records
  * @param config Configuration
  * @param configPath Path to save config
+ * @param dkimKeys Types of the DKIM keys to generate
  */
-async function completeInitialization(config: TinkSESConfig, configPath: string) {
+async function completeInitialization(
+  config: TinkSESConfig,
+  configPath: string,
+  dkimKeys: DkimKeyOptions
+) {
   // Create output directory if it doesn't exist
   const resolvedOutputDir = path.dirname(path.resolve(configPath));
   if (!fs.existsSync(resolvedOutputDir)) {
     fs.mkdirSync(resolvedOutputDir, { recursive: true });
   }
 
-  // Generate DKIM keys
-  const { privateKey, publicKey } = generateDkimKeys(resolvedOutputDir, config.dkim.selector);
-
-  // Update config with DKIM settings
-  config.dkim.privateKey = privateKey;
-  config.dkim.publicKey = publicKey;
+  // Generate DKIM keys for every sending domain
+  for (const { dkim } of Object.values(getDomainConfigs(config))) {
+    const keyType = dkimKeys.type === 'ed25519' ? 'ed25519' : 'rsa';
+    Object.assign(
+      dkim,
+      generateDkimKeys(resolvedOutputDir, dkim.selector, keyType, dkimKeys.rsaKeySize)
+    );
+    if (dkim.secondary) {
+      Object.assign(
+        dkim.secondary,
+        generateDkimKeys(resolvedOutputDir, dkim.secondary.selector, 'ed25519')
+      );
+    }
+  }
 
   // Detect IP addresses
   console.log('\nDetecting IP addresses...');
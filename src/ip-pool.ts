@@ -0,0 +1,115 @@
+import net from 'net';
+import {
+  AddressFamilyPreference,
+  getDomainConfig,
+  getDomainConfigs,
+  getOutboundConfig,
+  OutboundAddress,
+  TinkSESConfig,
+} from './config.js';
+
+/**
+ * Local addresses outbound connections of a sending domain are bound to
+ */
+export interface IpPool {
+  name: string;
+  addresses: OutboundAddress[];
+}
+
+/**
+ * Get the IP pool of a sending domain
+ * @param config TinkSES configuration
+ * @param domain Sending domain
+ * @returns The pool, or undefined if the operating system picks the source address
+ */
+export function getIpPool(config: TinkSESConfig, domain: string): IpPool | undefined {
+  const outbound = getOutboundConfig(config);
+  const name = getDomainConfig(config, domain)?.ipPool || outbound.ipPool;
+  if (!name) return undefined;
+
+  const entries = outbound.ipPools[name];
+  if (!entries) {
+    throw new Error(`IP pool ${name} is not configured`);
+  }
+  return {
+    name,
+    addresses: entries.map(entry => (typeof entry === 'string' ? { address: entry } : entry)),
+  };
+}
+
+/**
+ * Check the IP pools of the configuration
+ * @returns Problems that keep messages from being sent
+ */
+export function findIpPoolErrors(config: TinkSESConfig): string[] {
+  const errors: string[] = [];
+  const outbound = getOutboundConfig(config);
+  for (const domain of Object.keys(getDomainConfigs(config))) {
+    const name = getDomainConfig(config, domain)?.ipPool || outbound.ipPool;
+    if (name && !outbound.ipPools[name]) {
+      errors.push(`IP pool ${name} of ${domain} is not configured`);
+    }
+  }
+  for (const [name, entries] of Object.entries(outbound.ipPools)) {
+    if (entries.length === 0) {
+      errors.push(`IP pool ${name} has no addresses`);
+    }
+    for (const entry of entries) {
+      const address = typeof entry === 'string' ? entry : entry?.address;
+      if (!net.isIP(address)) {
+        errors.push(`IP pool ${name} has an invalid address: ${address}`);
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Order the addresses of an MX host by the family preference, without the addresses that
+ * cannot be connected to
+ * @param addresses Addresses of the host
+ * @param preference Address family preference
+ * @param pool IP pool of the sending domain, addresses of families it has no address of are
+ * dropped
+ */
+export function orderDestinationAddresses(
+  addresses: string[],
+  preference: AddressFamilyPreference,
+  pool?: IpPool
+): string[] {
+  const usable = addresses.filter(
+    address =>
+      (preference !== 'ipv4-only' || net.isIPv4(address)) &&
+      (preference !== 'ipv6-only' || net.isIPv6(address)) &&
+      (!pool || pool.addresses.some(source => net.isIP(source.address) === net.isIP(address)))
+  );
+  const ipv6First = preference.startsWith('ipv6');
+  return [
+    ...usable.filter(address => net.isIPv6(address) === ipv6First),
+    ...usable.filter(address => net.isIPv6(address) !== ipv6First),
+  ];
+}
+
+/**
+ * Picks the source addresses of outbound connections, rotating through the addresses of
+ * each pool, e.g. to warm up new addresses or to spread the volume over them
+ */
+export class SourceAddressSelector {
+  private next = new Map<string, number>();
+
+  /**
+   * Get the address to bind a connection to
+   * @param pool IP pool of the sending domain
+   * @param destination Address connected to, the source address has the same family
+   */
+  public select(pool: IpPool, destination: string): OutboundAddress | undefined {
+    const family = net.isIP(destination);
+    const candidates = pool.addresses.filter(source => net.isIP(source.address) === family);
+    if (candidates.length === 0) return undefined;
+
+    const key = `${pool.name}|${family}`;
+    const index = (this.next.get(key) || 0) % candidates.length;
+    this.next.set(key, index + 1);
+    return candidates[index];
+  }
+}
@@ -0,0 +1,184 @@
+import fs from 'fs';
+import path from 'path';
+import { LogConfig, LogLevel } from './config.js';
+
+export type LogFields = Record<string, unknown>;
+
+const levelOrder: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+/**
+ * Fields holding credentials or message content, their values are never written
+ */
+const REDACTED_FIELDS =
+  /^(pass(word)?|passwordHash|secret|token|authorization|apiKey|keyHash|privateKey|text|html|raw|body|content)$/i;
+
+/**
+ * Replace credentials and message content in log fields, and reduce errors to their message
+ * @param fields Log fields
+ */
+export function redact(fields: LogFields): LogFields {
+  const result: LogFields = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) continue;
+    if (REDACTED_FIELDS.test(key)) {
+      result[key] = '[REDACTED]';
+    } else if (value instanceof Error) {
+      result[key] = value.message;
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Log file that is rotated once it reaches a maximum size. Rotated files get a numeric
+ * suffix, `tinkses.log.1` being the most recent one.
+ */
+class RotatingFile {
+  private filePath: string;
+  private maxSize: number;
+  private maxFiles: number;
+  private fd: number;
+  private size: number;
+
+  constructor(filePath: string, maxSize: number, maxFiles: number) {
+    this.filePath = path.resolve(filePath);
+    this.maxSize = maxSize;
+    this.maxFiles = maxFiles;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    this.fd = fs.openSync(this.filePath, 'a');
+    this.size = fs.fstatSync(this.fd).size;
+  }
+
+  public write(line: string): void {
+    const data = Buffer.from(line + '\n', 'utf8');
+    if (this.size > 0 && this.size + data.length > this.maxSize) {
+      this.rotate();
+    }
+    fs.writeSync(this.fd, data);
+    this.size += data.length;
+  }
+
+  public close(): void {
+    fs.closeSync(this.fd);
+  }
+
+  private rotate(): void {
+    fs.closeSync(this.fd);
+    fs.rmSync(`${this.filePath}.${this.maxFiles}`, { force: true });
+    for (let index = this.maxFiles - 1; index >= 1; index--) {
+      if (fs.existsSync(`${this.filePath}.${index}`)) {
+        fs.renameSync(`${this.filePath}.${index}`, `${this.filePath}.${index + 1}`);
+      }
+    }
+    if (this.maxFiles > 0) {
+      fs.renameSync(this.filePath, `${this.filePath}.1`);
+    } else {
+      fs.rmSync(this.filePath, { force: true });
+    }
+    this.fd = fs.openSync(this.filePath, 'a');
+    this.size = 0;
+  }
+}
+
+/**
+ * Settings shared by a logger and all of its children
+ */
+interface LoggerOutput {
+  level: LogLevel;
+  format: LogConfig['format'];
+  file?: RotatingFile;
+}
+
+/**
+ * Format a field value for the text format, quoting values with spaces
+ */
+function formatValue(value: unknown): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return /[\s"=]/.test(text) ? JSON.stringify(text) : text;
+}
+
+export class Logger {
+  private output: LoggerOutput;
+  private context: LogFields;
+
+  constructor(output: LoggerOutput, context: LogFields = {}) {
+    this.output = output;
+    this.context = context;
+  }
+
+  /**
+   * Create a logger adding fields to every line, e.g. the queue ID of a message
+   * @param fields Correlation fields
+   */
+  public child(fields: LogFields): Logger {
+    return new Logger(this.output, { ...this.context, ...fields });
+  }
+
+  public debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  public info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  public warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  public error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogFields): void {
+    if (levelOrder[level] < levelOrder[this.output.level]) return;
+
+    const time = new Date().toISOString();
+    const { component, ...rest } = redact({ ...this.context, ...fields });
+    let line: string;
+
+    if (this.output.format === 'json') {
+      line = JSON.stringify({ time, level, component, message, ...rest });
+    } else {
+      const tag = component ? ` [${component}]` : '';
+      const details = Object.entries(rest)
+        .map(([key, value]) => ` ${key}=${formatValue(value)}`)
+        .join('');
+      line = `${time} ${level.toUpperCase().padEnd(5)}${tag} ${message}${details}`;
+    }
+
+    if (level === 'error' || level === 'warn') {
+      process.stderr.write(line + '\n');
+    } else {
+      process.stdout.write(line + '\n');
+    }
+    this.output.file?.write(line);
+  }
+}
+
+const rootOutput: LoggerOutput = { level: 'info', format: 'text' };
+
+/**
+ * Logger used by all modules, configured once at startup
+ */
+export const logger = new Logger(rootOutput);
+
+/**
+ * Apply the log configuration to the shared logger and all of its children
+ * @param config Log configuration
+ */
+export function configureLogger(config: LogConfig): void {
+  rootOutput.file?.close();
+  rootOutput.level = config.level;
+  rootOutput.format = config.format;
+  rootOutput.file = config.file
+    ? new RotatingFile(config.file, config.maxSize, config.maxFiles)
+    : undefined;
+}
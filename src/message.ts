@@ -0,0 +1,126 @@
+import addressparser from 'nodemailer/lib/addressparser/index.js';
+
+/**
+ * Find where the header block of a raw message ends
+ * @returns Index of the empty line separating headers and body, or the message length
+ */
+function headerEnd(message: Buffer): number {
+  const crlf = message.indexOf('\r\n\r\n');
+  const lf = message.indexOf('\n\n');
+  if (crlf === -1 && lf === -1) return message.length;
+  if (crlf === -1) return lf;
+  if (lf === -1) return crlf;
+  return Math.min(crlf, lf);
+}
+
+/**
+ * Get the header block of a raw message
+ * @param message Raw message
+ * @param encoding Encoding of the result
+ */
+export function getHeaderBlock(message: Buffer, encoding: 'utf8' | 'latin1' = 'utf8'): string {
+  return message.subarray(0, headerEnd(message)).toString(encoding);
+}
+
+/**
+ * Get the body of a raw message, after the empty line ending the headers
+ * @param message Raw message
+ */
+export function getBody(message: Buffer): Buffer {
+  const end = headerEnd(message);
+  return message.subarray(end + (message[end] === 0x0d ? 4 : 2));
+}
+
+/**
+ * Prepend header lines to a raw message, keeping everything else byte for byte
+ * @param message Raw message
+ * @param headers Complete header lines, e.g. "Received: from ..."
+ */
+export function prependHeaders(message: Buffer, headers: string[]): Buffer {
+  if (headers.length === 0) return message;
+  const newline = message.indexOf('\r\n') !== -1 || message.indexOf('\n') === -1 ? '\r\n' : '\n';
+  const block = headers.map(header => header.replace(/\r?\n/g, newline) + newline).join('');
+  return Buffer.concat([Buffer.from(block, 'utf8'), message]);
+}
+
+/**
+ * Remove all occurrences of a header and their folded lines, the rest stays byte for byte
+ * @param message Raw message
+ * @param name Header name, case insensitive
+ */
+export function removeHeader(message: Buffer, name: string): Buffer {
+  const end = headerEnd(message);
+  const lines = message
+    .subarray(0, end)
+    .toString('latin1')
+    .split(/(?<=\n)/);
+  const pattern = new RegExp(`^${name}[ \\t]*:`, 'i');
+
+  const kept: string[] = [];
+  let removing = false;
+  for (const line of lines) {
+    if (!/^[ \t]/.test(line)) removing = pattern.test(line);
+    if (!removing) kept.push(line);
+  }
+  if (kept.length === lines.length) return message;
+
+  // The line break of the last header line follows the header block
+  const block = kept.join('').replace(/\r?\n$/, '');
+  const rest = block ? end : end + (message[end] === 0x0d ? 2 : 1);
+  return Buffer.concat([Buffer.from(block, 'latin1'), message.subarray(rest)]);
+}
+
+/**
+ * Get the unfolded value of the first occurrence of a header
+ * @param message Raw message
+ * @param name Header name, case insensitive
+ */
+export function getHeader(message: Buffer, name: string): string | undefined {
+  const lines = getHeaderBlock(message).split(/\r?\n(?![ \t])/);
+  const prefix = `${name.toLowerCase()}:`;
+  const line = lines.find(header => header.toLowerCase().startsWith(prefix));
+  return line
+    ?.slice(prefix.length)
+    .replace(/\r?\n[ \t]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Get the domain of the first address in the From header
+ * @param message Raw message
+ */
+export function getFromDomain(message: Buffer): string | undefined {
+  const from = getHeader(message, 'from');
+  if (!from) return undefined;
+  const address = addressparser(from, { flatten: true })[0]?.address;
+  return address?.split('@')[1]?.toLowerCase();
+}
+
+export interface ReceivedTrace {
+  /** Name the client introduced itself with */
+  heloName?: string;
+  remoteAddress: string;
+  /** Host name of this server */
+  by: string;
+  /** Protocol, e.g. ESMTPSA or HTTP */
+  protocol: string;
+  id: string;
+  recipients: string[];
+}
+
+/**
+ * Build a Received trace header
+ * @param trace Details of how the message was received
+ */
+export function buildReceivedHeader(trace: ReceivedTrace): string {
+  const lines = [
+    `Received: from ${trace.heloName || 'unknown'} ([${trace.remoteAddress}])`,
+    `\tby ${trace.by} (TinkSES) with ${trace.protocol} id ${trace.id}`,
+  ];
+  if (trace.recipients.length === 1) {
+    lines.push(`\tfor <${trace.recipients[0]}>`);
+  }
+  lines[lines.length - 1] += ';';
+  lines.push(`\t${new Date().toUTCString()}`);
+  return lines.join('\r\n');
+}
@@ -0,0 +1,243 @@
+import http from 'http';
+import { getMetricsConfig, MetricsConfig, TinkSESConfig } from './config.js';
+import { logger } from './logger.js';
+
+type Labels = Record<string, string>;
+
+const log = logger.child({ component: 'metrics' });
+
+/**
+ * Escape a label value for the Prometheus text format
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`);
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Key identifying a label combination, label order does not matter
+ */
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+abstract class Metric {
+  public readonly name: string;
+  public readonly help: string;
+  protected abstract type: string;
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  /**
+   * Render the metric in the Prometheus text format
+   */
+  public render(): string {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.samples(),
+    ]
+      .join('\n')
+      .concat('\n');
+  }
+
+  protected abstract samples(): string[];
+}
+
+export class Counter extends Metric {
+  protected type = 'counter';
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  public inc(labels: Labels = {}, value = 1): void {
+    const key = labelKey(labels);
+    const current = this.values.get(key) || { labels, value: 0 };
+    current.value += value;
+    this.values.set(key, current);
+  }
+
+  protected samples(): string[] {
+    if (this.values.size === 0) return [`${this.name} 0`];
+    return [...this.values.values()].map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+    );
+  }
+}
+
+export class Gauge extends Metric {
+  protected type = 'gauge';
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  public set(value: number, labels: Labels = {}): void {
+    this.values.set(labelKey(labels), { labels, value });
+  }
+
+  protected samples(): string[] {
+    if (this.values.size === 0) return [`${this.name} 0`];
+    return [...this.values.values()].map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+    );
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric {
+  protected type = 'histogram';
+  private buckets: number[];
+  private series = new Map<string, HistogramSeries>();
+
+  /**
+   * @param name Metric name
+   * @param help Description
+   * @param buckets Upper bounds of the buckets, in ascending order
+   */
+  constructor(name: string, help: string, buckets: number[]) {
+    super(name, help);
+    this.buckets = buckets;
+  }
+
+  public observe(value: number, labels: Labels = {}): void {
+    const key = labelKey(labels);
+    const series = this.series.get(key) || {
+      labels,
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) series.counts[index]++;
+    });
+    series.sum += value;
+    series.count++;
+    this.series.set(key, series);
+  }
+
+  /**
+   * Start a timer
+   * @returns Function observing the elapsed seconds
+   */
+  public startTimer(): (labels?: Labels) => void {
+    const start = process.hrtime.bigint();
+    return labels => this.observe(Number(process.hrtime.bigint() - start) / 1e9, labels);
+  }
+
+  protected samples(): string[] {
+    const lines: string[] = [];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        const bucketLabels = formatLabels({ ...labels, le: String(bound) });
+        lines.push(`${this.name}_bucket${bucketLabels} ${counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+const registry: Metric[] = [];
+
+function register<T extends Metric>(metric: T): T {
+  registry.push(metric);
+  return metric;
+}
+
+export const smtpConnections = register(
+  new Counter('tinkses_smtp_connections_total', 'SMTP connections accepted')
+);
+
+export const smtpAuth = register(
+  new Counter('tinkses_smtp_auth_total', 'SMTP authentication attempts by result')
+);
+
+export const messagesAccepted = register(
+  new Counter('tinkses_messages_accepted_total', 'Messages accepted for delivery by source')
+);
+
+export const deliveries = register(
+  new Counter(
+    'tinkses_deliveries_total',
+    'Recipient delivery attempts by outcome and recipient domain'
+  )
+);
+
+export const deliveryDuration = register(
+  new Histogram(
+    'tinkses_delivery_duration_seconds',
+    'Duration of delivery attempts of a message',
+    [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120]
+  )
+);
+
+export const mxLookupDuration = register(
+  new Histogram(
+    'tinkses_mx_lookup_duration_seconds',
+    'Duration of MX lookups that were not answered from the cache',
+    [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5]
+  )
+);
+
+export const queueDepth = register(
+  new Gauge('tinkses_queue_recipients', 'Recipients waiting in the queue by status')
+);
+
+export const dkimSigningErrors = register(
+  new Counter('tinkses_dkim_signing_errors_total', 'Messages that could not be DKIM signed')
+);
+
+/**
+ * Render all metrics in the Prometheus text format
+ */
+export function renderMetrics(): string {
+  return registry.map(metric => metric.render()).join('');
+}
+
+/**
+ * HTTP listener serving `/metrics` for Prometheus
+ */
+export class MetricsServer {
+  private metricsConfig: MetricsConfig;
+  private server: http.Server;
+
+  constructor(config: TinkSESConfig) {
+    this.metricsConfig = getMetricsConfig(config);
+    this.server = http.createServer((req, res) => {
+      const { pathname } = new URL(req.url || '/', 'http://localhost');
+      if (pathname !== '/metrics' || (req.method !== 'GET' && req.method !== 'HEAD')) {
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        res.end('Not found\n');
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+      res.end(req.method === 'HEAD' ? undefined : renderMetrics());
+    });
+
+    this.server.on('error', err => {
+      log.error('Metrics server error', { error: err });
+    });
+  }
+
+  public start(): void {
+    const { host, port } = this.metricsConfig;
+    this.server.listen(port, host, () => {
+      log.info('Metrics endpoint started', { listen: `${host}:${port}` });
+    });
+  }
+
+  public async stop(): Promise<void> {
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+}
@@ -0,0 +1,219 @@
+import dns from 'dns';
+import { logger } from './logger.js';
+import { mxLookupDuration } from './metrics.js';
+
+/**
+ * DNS lookups used for delivery, replaceable to test against local stand-ins
+ */
+export interface DnsResolver {
+  resolveMx(name: string): Promise<dns.MxRecord[]>;
+  resolve4(name: string): Promise<dns.RecordWithTtl[]>;
+  resolve6(name: string): Promise<dns.RecordWithTtl[]>;
+}
+
+export const defaultDnsResolver: DnsResolver = {
+  resolveMx: name => dns.promises.resolveMx(name),
+  resolve4: name => dns.promises.resolve4(name, { ttl: true }),
+  resolve6: name => dns.promises.resolve6(name, { ttl: true }),
+};
+
+export interface MxHost {
+  exchange: string;
+  priority: number;
+  /** The domain has no MX records and is used as its own mail host (RFC 5321 section 5.1) */
+  implicit: boolean;
+}
+
+/**
+ * Seconds MX answers are cached, Node.js does not report their TTL
+ */
+const MX_CACHE_TTL = 300;
+
+/**
+ * Seconds answers without records are cached
+ */
+const NEGATIVE_CACHE_TTL = 60;
+
+/**
+ * Bounds in seconds for the cache time of address records
+ */
+const MIN_ADDRESS_TTL = 30;
+const MAX_ADDRESS_TTL = 3600;
+
+interface CacheEntry<T> {
+  value: T;
+  expires: number;
+}
+
+/**
+ * The name exists without records of the requested type, or does not exist at all.
+ * Retrying these lookups does not change the answer.
+ */
+function isNoData(error: unknown): boolean {
+  const code = (error as { code?: string }).code;
+  return code === 'ENODATA' || code === 'ENOTFOUND';
+}
+
+/**
+ * Error carrying an SMTP style reply, makes delivery fail permanently for every recipient
+ */
+function permanentError(enhancedStatus: string, message: string, responseCode = 550) {
+  return Object.assign(new Error(message), {
+    response: `${responseCode} ${enhancedStatus} ${message}`,
+    responseCode,
+  });
+}
+
+/**
+ * Look up the MX records of a domain, retrying temporary DNS failures
+ * @param domain Recipient domain
+ * @param retries Number of attempts
+ * @param resolver DNS lookups to use
+ * @returns MX records, empty if the domain has none
+ */
+export const resolveMxWithRetry = async (
+  domain: string,
+  retries = 3,
+  resolver: DnsResolver = defaultDnsResolver
+): Promise<dns.MxRecord[]> => {
+  let lastError: unknown;
+  for (let attempt = 1; attempt <= retries; attempt++) {
+    try {
+      return await resolver.resolveMx(domain);
+    } catch (err) {
+      if (isNoData(err)) return [];
+      lastError = err;
+      if (attempt < retries) {
+        logger.warn('MX lookup failed, retrying', {
+          component: 'dns',
+          domain,
+          attempt,
+          error: err,
+        });
+        await new Promise(res => setTimeout(res, 200 * attempt));
+      }
+    }
+  }
+  throw lastError;
+};
+
+/**
+ * Sort MX records by priority, shuffling records of equal priority to spread the load
+ */
+function orderMxRecords(records: dns.MxRecord[]): dns.MxRecord[] {
+  return records
+    .map(record => ({ record, weight: Math.random() }))
+    .sort((a, b) => a.record.priority - b.record.priority || a.weight - b.weight)
+    .map(({ record }) => record);
+}
+
+/**
+ * Resolves the mail hosts of recipient domains and their addresses, caching the answers
+ */
+export class MxResolver {
+  private resolver: DnsResolver;
+  private mxCache = new Map<string, CacheEntry<dns.MxRecord[]>>();
+  private addressCache = new Map<string, CacheEntry<string[]>>();
+
+  constructor(resolver: DnsResolver = defaultDnsResolver) {
+    this.resolver = resolver;
+  }
+
+  /**
+   * Get the mail hosts of a domain in the order they should be tried
+   * @param domain Recipient domain
+   * @throws Error with a 5xx response for null MX domains and domains without mail hosts
+   */
+  public async resolveMxHosts(domain: string): Promise<MxHost[]> {
+    const name = domain.toLowerCase();
+    const records = await this.lookupMx(name);
+
+    // A single record with the root as exchange announces that the domain accepts no mail (RFC 7505)
+    const isNullMx = (record: dns.MxRecord) => record.exchange === '' || record.exchange === '.';
+    if (records.length === 1 && isNullMx(records[0])) {
+      throw permanentError('5.1.10', `Domain ${domain} does not accept mail (null MX)`, 556);
+    }
+
+    const mxRecords = records.filter(record => !isNullMx(record));
+    if (mxRecords.length > 0) {
+      return orderMxRecords(mxRecords).map(record => ({
+        exchange: record.exchange.replace(/\.$/, ''),
+        priority: record.priority,
+        implicit: false,
+      }));
+    }
+
+    const addresses = await this.resolveAddresses(name);
+    if (addresses.length === 0) {
+      throw permanentError('5.1.2', `Domain ${domain} has no MX or address records`);
+    }
+    return [{ exchange: name, priority: 0, implicit: true }];
+  }
+
+  /**
+   * Get the IPv4 and IPv6 addresses of a host
+   * @param host Host name
+   * @returns Addresses, empty if the host has none
+   */
+  public async resolveAddresses(host: string): Promise<string[]> {
+    const name = host.toLowerCase();
+    const cached = this.getCached(this.addressCache, name);
+    if (cached) return cached;
+
+    const answers = await Promise.allSettled([
+      this.resolver.resolve4(name),
+      this.resolver.resolve6(name),
+    ]);
+    const failures = answers.filter(
+      (answer): answer is PromiseRejectedResult =>
+        answer.status === 'rejected' && !isNoData(answer.reason)
+    );
+    const records = answers.flatMap(answer => (answer.status === 'fulfilled' ? answer.value : []));
+    if (records.length === 0 && failures.length > 0) {
+      throw failures[0].reason;
+    }
+
+    const ttl = records.length
+      ? Math.min(
+          MAX_ADDRESS_TTL,
+          Math.max(MIN_ADDRESS_TTL, Math.min(...records.map(record => record.ttl)))
+        )
+      : NEGATIVE_CACHE_TTL;
+    const addresses = records.map(record => record.address);
+
+    // A partial answer is used for this delivery but not cached
+    if (failures.length === 0) {
+      this.addressCache.set(name, { value: addresses, expires: Date.now() + ttl * 1000 });
+    }
+    return addresses;
+  }
+
+  /**
+   * Get the MX records of a domain from the cache or DNS
+   */
+  private async lookupMx(domain: string): Promise<dns.MxRecord[]> {
+    const cached = this.getCached(this.mxCache, domain);
+    if (cached) return cached;
+
+    const endTimer = mxLookupDuration.startTimer();
+    let records: dns.MxRecord[];
+    try {
+      records = await resolveMxWithRetry(domain, 3, this.resolver);
+    } finally {
+      endTimer();
+    }
+    const ttl = records.length ? MX_CACHE_TTL : NEGATIVE_CACHE_TTL;
+    this.mxCache.set(domain, { value: records, expires: Date.now() + ttl * 1000 });
+    return records;
+  }
+
+  private getCached<T>(cache: Map<string, CacheEntry<T>>, key: string): T | undefined {
+    const entry = cache.get(key);
+    if (!entry) return undefined;
+    if (Date.now() >= entry.expires) {
+      cache.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+}
@@ -1,4 +1,7 @@
 import os from 'os';
+import { logger } from './logger.js';
+
+const log = logger.child({ component: 'network' });
 
 export interface NetworkInterface {
   name: string;
@@ -112,7 +115,7 @@ export async function getPublicIPs(): Promise<{ ipv4?: string; ipv6?: string }>
       }
     }
   } catch (error) {
-    console.error('Error getting public IPv4:', error);
+    log.warn('Error getting public IPv4', { error });
   }
 
   try {
@@ -125,7 +128,7 @@ export async function getPublicIPs(): Promise<{ ipv4?: string; ipv6?: string }>
       }
     }
   } catch (error) {
-    console.error('Error getting public IPv6:', error);
+    log.warn('Error getting public IPv6', { error });
   }
 
   return result;
@@ -151,7 +154,7 @@ export async function getAllIPs(includePrivate: boolean = true): Promise<string[
       ips.push(publicIPs.ipv6);
     }
   } catch (error) {
-    console.error('Error getting public IPs:', error);
+    log.warn('Error getting public IPs', { error });
   }
 
   // Return unique IPs
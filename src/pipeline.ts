@@ -0,0 +1,234 @@
+import { simpleParser } from 'mailparser';
+import {
+  getBounceConfig,
+  getQueueConfig,
+  getRateLimitConfig,
+  getSuppressionConfig,
+  getWebhookConfig,
+  RateLimitConfig,
+  SuppressionConfig,
+  TinkSESConfig,
+} from './config.js';
+import { DeliveryAgent } from './delivery.js';
+import { entryLog, OutboundQueue, QueueEntry, QueuedRecipient } from './queue.js';
+import { generateBounceMessage } from './bounce.js';
+import { prependHeaders } from './message.js';
+import { createRecipientEvent, WebhookDispatcher } from './webhooks.js';
+import { Logger, logger } from './logger.js';
+import { DeliveryThrottle, RateLimiter } from './rate-limit.js';
+import { SuppressionEntry, SuppressionList } from './suppression.js';
+
+export interface SubmittedMessage {
+  /** Queue entry, undefined when every recipient was suppressed */
+  entry?: QueueEntry;
+  messageId: string;
+  /** Recipients dropped because they are on the suppression list */
+  suppressed: string[];
+}
+
+/**
+ * A submitted recipient address has no domain to deliver to
+ */
+export class InvalidRecipientError extends Error {
+  address: string;
+
+  constructor(address: string) {
+    super(`Invalid recipient address: ${address}`);
+    this.address = address;
+  }
+}
+
+/**
+ * Accepts messages from the SMTP listener and the HTTP API, spools them and delivers
+ * them in the background
+ */
+export class MailPipeline {
+  private config: TinkSESConfig;
+  private queue: OutboundQueue;
+  private delivery: DeliveryAgent;
+  private webhooks: WebhookDispatcher;
+  private rateLimits: RateLimitConfig;
+  private userRates = new RateLimiter();
+  private suppressionConfig: SuppressionConfig;
+  private suppressions: SuppressionList;
+
+  constructor(config: TinkSESConfig) {
+    this.config = config;
+    this.rateLimits = getRateLimitConfig(config);
+    this.suppressionConfig = getSuppressionConfig(config);
+    this.suppressions = new SuppressionList(this.suppressionConfig.file);
+    this.delivery = new DeliveryAgent(config);
+    this.webhooks = new WebhookDispatcher(getWebhookConfig(config));
+    this.queue = new OutboundQueue(
+      getQueueConfig(config),
+      (entry, message, to) =>
+        this.delivery.deliver({ from: entry.from, to }, message, entry.messageId, entryLog(entry)),
+      new DeliveryThrottle(this.rateLimits)
+    );
+    this.queue.on('recipient', (entry, recipient) => this.onRecipient(entry, recipient));
+    this.queue.on('failed', (entry, recipients, message) =>
+      this.sendBounce(entry, recipients, message)
+    );
+  }
+
+  /**
+   * Find the suppression list entry of a recipient
+   * @param address Recipient address
+   * @returns The entry, or undefined if mail may be sent to the address
+   */
+  public findSuppression(address: string): SuppressionEntry | undefined {
+    return this.suppressions.find(address);
+  }
+
+  /**
+   * Queue a message for delivery. Suppressed recipients are dropped.
+   * @param from Envelope sender
+   * @param recipients Envelope recipients
+   * @param messageBuffer Raw message
+   * @param traceHeaders Trace headers to prepend, e.g. Received
+   * @param sourceLog Logger of the submitting session or request
+   * @param submitter Authenticated user or API key, messages over its rate limit are
+   * accepted and held in the queue until the limit allows them
+   * @throws InvalidRecipientError if a recipient is not a `local@domain` address
+   */
+  public async submit(
+    from: string,
+    recipients: string[],
+    messageBuffer: Buffer,
+    traceHeaders: string[],
+    sourceLog: Logger = logger,
+    submitter?: string
+  ): Promise<SubmittedMessage> {
+    const invalid = recipients.find(address => !/^[^\s@]+@[^\s@]+$/.test(address));
+    if (invalid !== undefined) {
+      throw new InvalidRecipientError(invalid);
+    }
+
+    // Parse the email
+    const parsedMail = await simpleParser(messageBuffer);
+    const subject = parsedMail.subject || '(No Subject)';
+    const messageId =
+      parsedMail.messageId ||
+      `<${Date.now()}.${Math.random().toString(36).substring(2)}@${this.config.domain}>`;
+
+    const suppressed = recipients.filter(address => this.suppressions.find(address));
+    if (suppressed.length > 0) {
+      sourceLog.info('Suppressed recipients dropped', { messageId, recipients: suppressed });
+      recipients = recipients.filter(address => !suppressed.includes(address));
+      if (recipients.length === 0) {
+        return { messageId, suppressed };
+      }
+    }
+
+    // Only add trace and identification headers, the message itself is kept as is
+    const addedHeaders = [...traceHeaders];
+    if (!parsedMail.messageId) {
+      addedHeaders.push(`Message-ID: ${messageId}`);
+    }
+    const message = prependHeaders(messageBuffer, addedHeaders);
+
+    const now = Date.now();
+    const notBefore = submitter
+      ? this.userRates.reserve(submitter, this.rateLimits.userMessagesPerMinute, now)
+      : now;
+    if (notBefore > now) {
+      sourceLog.info('Sender rate limit reached, delivery delayed', {
+        until: new Date(notBefore).toISOString(),
+      });
+    }
+
+    // Spool the message, delivery happens in the background
+    const entry = this.queue.enqueue(from, recipients, message, messageId, notBefore);
+
+    sourceLog.info('Message queued', {
+      queueId: entry.id,
+      messageId,
+      from,
+      to: recipients,
+      subject,
+    });
+
+    entry.recipients.forEach(recipient =>
+      this.webhooks.dispatch(createRecipientEvent(entry, recipient))
+    );
+
+    return { entry, messageId, suppressed };
+  }
+
+  /**
+   * Report a recipient status change and suppress recipients that failed permanently
+   */
+  private onRecipient(entry: QueueEntry, recipient: QueuedRecipient): void {
+    // The catch-all address of the redirect mode failed, the recipient was never contacted
+    if (recipient.status === 'failed' && recipient.redirectedTo) {
+      entryLog(entry).error('Redirect address rejected the message', {
+        recipient: recipient.address,
+        redirectTo: recipient.redirectedTo,
+        error: recipient.lastError,
+      });
+      return;
+    }
+
+    this.webhooks.dispatch(createRecipientEvent(entry, recipient));
+
+    // Recipients that expired in the queue have no 5xx reply and stay deliverable. Rejections
+    // of the whole transaction, e.g. of a blocklisted sending address, say nothing about them.
+    if (
+      this.suppressionConfig.autoAdd &&
+      recipient.status === 'failed' &&
+      recipient.recipientRejected &&
+      recipient.responseCode &&
+      recipient.responseCode >= 500
+    ) {
+      try {
+        this.suppressions.addBounce(
+          recipient.address,
+          recipient.lastError,
+          recipient.enhancedStatus,
+          this.suppressionConfig.softBounceExpiry
+        );
+      } catch (error) {
+        entryLog(entry).error('Unable to update suppression list', { error });
+      }
+    }
+  }
+
+  /**
+   * Notify the envelope sender about recipients that could not be delivered
+   */
+  private sendBounce(entry: QueueEntry, failed: QueuedRecipient[], message: Buffer): void {
+    const bounceConfig = getBounceConfig(this.config);
+    const recipients = failed.filter(recipient => !recipient.redirectedTo);
+    if (recipients.length === 0) return;
+
+    // Never bounce a bounce, the null sender cannot receive notifications
+    const log = entryLog(entry);
+    if (!bounceConfig.enabled || !entry.from) {
+      log.info('No bounce sent for failed recipients', { failed: recipients.length });
+      return;
+    }
+
+    try {
+      const bounce = generateBounceMessage(
+        { reportingMta: this.config.domain, from: bounceConfig.from },
+        entry,
+        recipients,
+        message
+      );
+      const bounceEntry = this.queue.enqueue('', [entry.from], bounce.message, bounce.messageId);
+      log.info('Bounce queued', { bounceQueueId: bounceEntry.id, to: entry.from });
+    } catch (error) {
+      log.error('Unable to queue bounce', { error });
+    }
+  }
+
+  public start(): void {
+    this.queue.start();
+  }
+
+  public async stop(): Promise<void> {
+    await this.queue.stop();
+    this.delivery.close();
+    this.webhooks.stop();
+  }
+}
@@ -0,0 +1,547 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { QueueConfig } from './config.js';
+import { RecipientResult, TlsInfo } from './delivery.js';
+import { Logger, logger } from './logger.js';
+import { deliveries, deliveryDuration, queueDepth } from './metrics.js';
+import { DeliveryThrottle } from './rate-limit.js';
+
+export type RecipientStatus = 'queued' | 'deferred' | 'delivered' | 'failed';
+
+export interface QueuedRecipient {
+  address: string;
+  domain: string;
+  status: RecipientStatus;
+  attempts: number;
+  /** Time of the next delivery attempt (ms since epoch) */
+  nextAttempt: number;
+  lastAttempt?: number;
+  lastError?: string;
+  /** Reply code of the last attempt, a failed recipient without a 5xx code has expired */
+  responseCode?: number;
+  enhancedStatus?: string;
+  remoteMta?: string;
+  /** The last reply rejected the recipient itself rather than the whole transaction */
+  recipientRejected?: boolean;
+  /** TLS parameters of the successful delivery */
+  tls?: TlsInfo;
+  /** Catch-all address of the redirect mode the last attempt was delivered to instead */
+  redirectedTo?: string;
+}
+
+export interface QueueEntry {
+  id: string;
+  from: string;
+  messageId: string;
+  createdAt: number;
+  recipients: QueuedRecipient[];
+}
+
+export interface DomainQueueStats {
+  queued: number;
+  deferred: number;
+  oldest: number;
+  nextAttempt: number;
+  lastError?: string;
+}
+
+/**
+ * Delivers a queued message to the given recipients, which may span several domains, and
+ * reports the result for each of them. Throwing defers all recipients.
+ */
+export type DeliverFunction = (
+  entry: QueueEntry,
+  message: Buffer,
+  recipients: string[]
+) => Promise<RecipientResult[]>;
+
+const log = logger.child({ component: 'queue' });
+
+/**
+ * Logger for the lines about a queued message, its queue ID and Message-ID correlate them
+ * @param entry Queue entry
+ */
+export function entryLog(entry: QueueEntry): Logger {
+  return log.child({ queueId: entry.id, messageId: entry.messageId });
+}
+
+function isPending(recipient: QueuedRecipient): boolean {
+  return recipient.status === 'queued' || recipient.status === 'deferred';
+}
+
+function generateQueueId(): string {
+  return (Date.now().toString(36) + crypto.randomBytes(5).toString('hex')).toUpperCase();
+}
+
+/**
+ * Write a file atomically, so a crash never leaves a half written entry behind
+ */
+function writeFileAtomic(filePath: string, data: string | Buffer): void {
+  const tmpPath = `${filePath}.tmp`;
+  fs.writeFileSync(tmpPath, data);
+  fs.renameSync(tmpPath, filePath);
+}
+
+/**
+ * Load all queue entries from a spool directory
+ * @param dir Queue directory
+ */
+export function loadQueueEntries(dir: string): QueueEntry[] {
+  if (!fs.existsSync(dir)) return [];
+
+  const entries: QueueEntry[] = [];
+  for (const file of fs.readdirSync(dir)) {
+    if (!file.endsWith('.json')) continue;
+    try {
+      entries.push(JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')));
+    } catch (error) {
+      log.error('Unable to read queue entry', { file, error });
+    }
+  }
+
+  return entries.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Summarize pending recipients of queue entries by recipient domain
+ * @param entries Queue entries
+ */
+export function summarizeQueue(entries: QueueEntry[]): Record<string, DomainQueueStats> {
+  const stats: Record<string, DomainQueueStats> = {};
+
+  for (const entry of entries) {
+    for (const recipient of entry.recipients.filter(isPending)) {
+      const domainStats = (stats[recipient.domain] ??= {
+        queued: 0,
+        deferred: 0,
+        oldest: entry.createdAt,
+        nextAttempt: recipient.nextAttempt,
+      });
+      domainStats[recipient.status === 'queued' ? 'queued' : 'deferred']++;
+      domainStats.oldest = Math.min(domainStats.oldest, entry.createdAt);
+      domainStats.nextAttempt = Math.min(domainStats.nextAttempt, recipient.nextAttempt);
+      if (recipient.lastError) {
+        domainStats.lastError = recipient.lastError;
+      }
+    }
+  }
+
+  return stats;
+}
+
+/**
+ * File backed outbound queue. Accepted messages are written to disk and delivered by a
+ * background worker, failed deliveries are retried following the configured schedule.
+ * Deliveries run concurrently within the connection and rate limits of the throttle.
+ *
+ * Emits `recipient` (entry, recipient) after every delivery attempt with the updated
+ * recipient, and `failed` (entry, recipients, message) when recipients failed permanently
+ * or expired.
+ */
+export class OutboundQueue extends EventEmitter {
+  private config: QueueConfig;
+  private dir: string;
+  private deliver: DeliverFunction;
+  private throttle: DeliveryThrottle;
+  private entries = new Map<string, QueueEntry>();
+  private timer?: ReturnType<typeof setTimeout>;
+  private processing?: Promise<void>;
+  private rerun = false;
+  private running = false;
+  /** Domains with due recipients but no free connection, scanned again once one is released */
+  private waitingDomains = new Set<string>();
+
+  /**
+   * @param config Queue configuration
+   * @param deliver Delivers a message to its due recipients
+   * @param throttle Connection and rate limits of outbound deliveries
+   */
+  constructor(config: QueueConfig, deliver: DeliverFunction, throttle: DeliveryThrottle) {
+    super();
+    this.config = config;
+    this.dir = path.resolve(config.dir);
+    this.deliver = deliver;
+    this.throttle = throttle;
+  }
+
+  /**
+   * Load spooled messages from disk and start the delivery worker
+   */
+  public start(): void {
+    if (this.running) return;
+
+    fs.mkdirSync(this.dir, { recursive: true });
+    for (const entry of loadQueueEntries(this.dir)) {
+      this.entries.set(entry.id, entry);
+    }
+    this.running = true;
+
+    log.info('Queue loaded', { messages: this.entries.size, dir: this.dir });
+    this.updateDepth();
+    this.schedule(0);
+  }
+
+  /**
+   * Stop the delivery worker, waiting for running deliveries to finish
+   */
+  public async stop(): Promise<void> {
+    this.running = false;
+    clearTimeout(this.timer);
+    await this.processing;
+  }
+
+  /**
+   * Write a message to the spool and schedule it for delivery
+   * @param from Envelope sender
+   * @param recipients Envelope recipients
+   * @param message Raw message
+   * @param messageId Message-ID of the message
+   * @param notBefore Time (ms since epoch) of the first delivery attempt, defaults to now
+   */
+  public enqueue(
+    from: string,
+    recipients: string[],
+    message: Buffer,
+    messageId: string,
+    notBefore = Date.now()
+  ): QueueEntry {
+    const now = Date.now();
+    const entry: QueueEntry = {
+      id: generateQueueId(),
+      from,
+      messageId,
+      createdAt: now,
+      recipients: [...new Set(recipients)].map(address => ({
+        address,
+        domain: address.split('@')[1].toLowerCase(),
+        status: 'queued',
+        attempts: 0,
+        nextAttempt: Math.max(notBefore, now),
+      })),
+    };
+
+    // The message is written before its metadata, an entry only exists once both are on disk
+    fs.mkdirSync(this.dir, { recursive: true });
+    writeFileAtomic(this.messagePath(entry.id), message);
+    this.saveEntry(entry);
+    this.entries.set(entry.id, entry);
+
+    entryLog(entry).debug('Message spooled', { recipients: entry.recipients.length });
+    this.updateDepth();
+    this.schedule(0);
+
+    return entry;
+  }
+
+  public getEntries(): QueueEntry[] {
+    return [...this.entries.values()];
+  }
+
+  public getDomainStats(): Record<string, DomainQueueStats> {
+    return summarizeQueue(this.getEntries());
+  }
+
+  private messagePath(id: string): string {
+    return path.join(this.dir, `${id}.eml`);
+  }
+
+  private entryPath(id: string): string {
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  private saveEntry(entry: QueueEntry): void {
+    writeFileAtomic(this.entryPath(entry.id), JSON.stringify(entry, null, 2));
+  }
+
+  private removeEntry(entry: QueueEntry): void {
+    this.entries.delete(entry.id);
+    fs.rmSync(this.entryPath(entry.id), { force: true });
+    fs.rmSync(this.messagePath(entry.id), { force: true });
+  }
+
+  private schedule(delay: number): void {
+    if (!this.running) return;
+
+    if (this.processing) {
+      // A run is in progress, run again right after it so new entries are not missed
+      if (delay === 0) this.rerun = true;
+      return;
+    }
+
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.processing = this.processDue().finally(() => {
+        this.processing = undefined;
+        const rerun = this.rerun;
+        this.rerun = false;
+        this.schedule(rerun ? 0 : this.nextDelay());
+      });
+    }, delay);
+  }
+
+  /**
+   * Milliseconds until the next recipient is due, capped by the poll interval
+   */
+  private nextDelay(): number {
+    let next = Date.now() + this.config.pollInterval * 1000;
+    for (const entry of this.entries.values()) {
+      for (const recipient of entry.recipients.filter(isPending)) {
+        if (this.waitingDomains.has(recipient.domain)) continue;
+        next = Math.min(next, recipient.nextAttempt);
+      }
+    }
+    return Math.max(next - Date.now(), 0);
+  }
+
+  /**
+   * Whether an entry has due recipients of domains that are not waiting for a connection
+   */
+  private hasDueRecipients(entry: QueueEntry, now: number): boolean {
+    return entry.recipients.some(
+      recipient =>
+        isPending(recipient) &&
+        recipient.nextAttempt <= now &&
+        !this.waitingDomains.has(recipient.domain)
+    );
+  }
+
+  private async processDue(): Promise<void> {
+    this.waitingDomains.clear();
+    const processing: Promise<void>[] = [];
+    for (const entry of this.getEntries()) {
+      if (!this.hasDueRecipients(entry, Date.now())) continue;
+
+      // Entries are started in order as connections become free
+      await this.throttle.waitForConnection();
+      if (!this.running) break;
+      processing.push(
+        this.processEntry(entry).catch(error => {
+          entryLog(entry).error('Error processing entry', { error });
+        })
+      );
+    }
+    await Promise.all(processing);
+  }
+
+  private async processEntry(entry: QueueEntry): Promise<void> {
+    const now = Date.now();
+
+    // Group due recipients by domain
+    const dueGroups: Record<string, QueuedRecipient[]> = {};
+    for (const recipient of entry.recipients) {
+      if (isPending(recipient) && recipient.nextAttempt <= now) {
+        (dueGroups[recipient.domain] ??= []).push(recipient);
+      }
+    }
+    if (Object.keys(dueGroups).length === 0) return;
+
+    let message: Buffer;
+    try {
+      message = fs.readFileSync(this.messagePath(entry.id));
+    } catch (error) {
+      entryLog(entry).error('Message file missing, dropping entry');
+      this.removeEntry(entry);
+      return;
+    }
+
+    // Recipient domains over a limit stay due, they are picked up again once a connection
+    // is released or postponed until the rate limit allows them
+    const domains: string[] = [];
+    let postponed = false;
+    for (const domain in dueGroups) {
+      if (this.waitingDomains.has(domain)) continue;
+      if (!this.throttle.hasFreeConnection(domain)) {
+        this.waitingDomains.add(domain);
+        continue;
+      }
+
+      const wait = this.throttle.rateDelay(domain, now);
+      if (wait > 0) {
+        // Held back without counting as an attempt
+        dueGroups[domain].forEach(recipient => (recipient.nextAttempt = now + wait));
+        entryLog(entry).debug('Rate limit reached, delivery postponed', {
+          domain,
+          until: new Date(now + wait).toISOString(),
+        });
+        postponed = true;
+        continue;
+      }
+
+      this.throttle.acquire(domain, now);
+      domains.push(domain);
+    }
+    if (domains.length === 0 && !postponed) return;
+
+    const failed: QueuedRecipient[] = [];
+    if (domains.length > 0) {
+      try {
+        await this.deliverRecipients(
+          entry,
+          message,
+          domains.flatMap(domain => dueGroups[domain]),
+          failed
+        );
+      } finally {
+        domains.forEach(domain => this.throttle.release(domain));
+        if (this.waitingDomains.size > 0) {
+          this.waitingDomains.clear();
+          this.schedule(0);
+        }
+      }
+    }
+
+    if (entry.recipients.some(isPending)) {
+      this.saveEntry(entry);
+    }
+    if (failed.length > 0) {
+      this.emit('failed', entry, failed, message);
+    }
+    if (!entry.recipients.some(isPending)) {
+      this.logSummary(entry);
+      this.removeEntry(entry);
+    }
+    this.updateDepth();
+  }
+
+  /**
+   * Deliver a message to due recipients and record the results
+   * @param failed Collects recipients that failed permanently
+   */
+  private async deliverRecipients(
+    entry: QueueEntry,
+    message: Buffer,
+    recipients: QueuedRecipient[],
+    failed: QueuedRecipient[]
+  ): Promise<void> {
+    const domains = [...new Set(recipients.map(recipient => recipient.domain))];
+    entryLog(entry).info('Delivering', { domains, recipients: recipients.length });
+
+    let results: RecipientResult[];
+    const endTimer = deliveryDuration.startTimer();
+    try {
+      results = await this.deliver(
+        entry,
+        message,
+        recipients.map(recipient => recipient.address)
+      );
+    } catch (error) {
+      // Unexpected errors are treated as temporary failures
+      const response = error instanceof Error ? error.message : String(error);
+      results = recipients.map(recipient => ({
+        address: recipient.address,
+        status: 'deferred',
+        response,
+      }));
+    }
+    endTimer();
+
+    for (const recipient of recipients) {
+      const result = results.find(item => item.address === recipient.address) || {
+        address: recipient.address,
+        status: 'deferred',
+        response: 'No delivery result',
+      };
+      this.applyResult(entry, recipient, result);
+      this.emit('recipient', entry, recipient);
+      deliveries.inc({ outcome: recipient.status, domain: recipient.domain });
+      if (recipient.status === 'failed') {
+        failed.push(recipient);
+      }
+    }
+  }
+
+  /**
+   * Update the queue depth metric with the number of pending recipients by status
+   */
+  private updateDepth(): void {
+    const depth = { queued: 0, deferred: 0 };
+    for (const entry of this.entries.values()) {
+      for (const recipient of entry.recipients) {
+        if (recipient.status === 'queued' || recipient.status === 'deferred') {
+          depth[recipient.status]++;
+        }
+      }
+    }
+    queueDepth.set(depth.queued, { status: 'queued' });
+    queueDepth.set(depth.deferred, { status: 'deferred' });
+  }
+
+  /**
+   * Update a recipient with the result of a delivery attempt
+   */
+  private applyResult(
+    entry: QueueEntry,
+    recipient: QueuedRecipient,
+    result: RecipientResult
+  ): void {
+    recipient.attempts++;
+    recipient.lastAttempt = Date.now();
+    recipient.responseCode = result.responseCode;
+    recipient.enhancedStatus = result.enhancedStatus;
+    recipient.remoteMta = result.remoteMta;
+    recipient.recipientRejected = result.recipientRejected;
+    recipient.redirectedTo = result.redirectedTo;
+
+    if (result.status === 'delivered') {
+      recipient.status = 'delivered';
+      recipient.tls = result.tls;
+      delete recipient.lastError;
+      entryLog(entry).info('Delivered', {
+        recipient: recipient.address,
+        remoteMta: result.remoteMta,
+        response: result.response,
+      });
+    } else if (result.status === 'failed') {
+      recipient.status = 'failed';
+      recipient.lastError = result.response;
+      entryLog(entry).error('Permanent failure', {
+        recipient: recipient.address,
+        response: result.response,
+      });
+    } else {
+      this.deferRecipient(entry, recipient, result.response);
+    }
+  }
+
+  /**
+   * Schedule the next attempt for a recipient, or give up once the message expired
+   */
+  private deferRecipient(entry: QueueEntry, recipient: QueuedRecipient, error: string): void {
+    const now = Date.now();
+    const expiresAt = entry.createdAt + this.config.maxAge * 1000;
+
+    recipient.lastError = error;
+
+    if (now >= expiresAt) {
+      recipient.status = 'failed';
+      entryLog(entry).error('Giving up after retries', {
+        recipient: recipient.address,
+        attempts: recipient.attempts,
+        response: error,
+      });
+      return;
+    }
+
+    const delays = this.config.retryDelays;
+    const delay = delays[Math.min(recipient.attempts - 1, delays.length - 1)] * 1000;
+    recipient.status = 'deferred';
+    recipient.nextAttempt = Math.min(now + delay, expiresAt);
+    entryLog(entry).warn('Delivery deferred', {
+      recipient: recipient.address,
+      nextAttempt: new Date(recipient.nextAttempt).toISOString(),
+      response: error,
+    });
+  }
+
+  private logSummary(entry: QueueEntry): void {
+    const delivered = entry.recipients.filter(recipient => recipient.status === 'delivered');
+    const failed = entry.recipients.filter(recipient => recipient.status === 'failed');
+
+    entryLog(entry).info('Delivery finished', {
+      delivered: delivered.length,
+      failed: failed.map(recipient => recipient.address),
+    });
+  }
+}
@@ -0,0 +1,135 @@
+import { DestinationLimits, getDestinationLimits, RateLimitConfig } from './config.js';
+
+interface Bucket {
+  tokens: number;
+  updated: number;
+}
+
+/**
+ * Token buckets limiting events per minute by key. A full minute's worth of events may
+ * happen at once, after that they are spread evenly over time.
+ */
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+
+  /**
+   * Milliseconds until an event is allowed
+   * @param key Key the limit applies to, e.g. a user name
+   * @param perMinute Allowed events per minute, 0 for no limit
+   * @returns 0 if the event is allowed now
+   */
+  public delay(key: string, perMinute: number, now = Date.now()): number {
+    if (!perMinute) return 0;
+    const { tokens } = this.refill(key, perMinute, now);
+    return tokens >= 1 ? 0 : Math.ceil(((1 - tokens) * 60000) / perMinute);
+  }
+
+  /**
+   * Count an event, also when it is over the limit
+   */
+  public take(key: string, perMinute: number, now = Date.now()): void {
+    if (!perMinute) return;
+    const bucket = this.refill(key, perMinute, now);
+    bucket.tokens--;
+    this.buckets.set(key, bucket);
+  }
+
+  /**
+   * Reserve the next free slot for an event. Every reservation counts, so a burst of
+   * reservations is spread out according to the limit.
+   * @returns Time (ms since epoch) from which the event is allowed
+   */
+  public reserve(key: string, perMinute: number, now = Date.now()): number {
+    const delay = this.delay(key, perMinute, now);
+    this.take(key, perMinute, now);
+    return now + delay;
+  }
+
+  private refill(key: string, perMinute: number, now: number): Bucket {
+    const bucket = this.buckets.get(key);
+    if (!bucket) return { tokens: perMinute, updated: now };
+
+    const tokens = bucket.tokens + ((now - bucket.updated) * perMinute) / 60000;
+    if (tokens >= perMinute) {
+      // A full bucket is the same as no bucket
+      this.buckets.delete(key);
+      return { tokens: perMinute, updated: now };
+    }
+    return { tokens, updated: now };
+  }
+}
+
+/**
+ * Outbound connection and rate limits, globally and per destination domain. Deliveries
+ * over a limit are not failed, the queue holds them until the limit allows them.
+ */
+export class DeliveryThrottle {
+  private config: RateLimitConfig;
+  private rates = new RateLimiter();
+  private connections = new Map<string, number>();
+  private totalConnections = 0;
+  private waiters: (() => void)[] = [];
+
+  constructor(config: RateLimitConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Get the limits of a destination domain
+   * @param domain Recipient domain, lower case
+   */
+  public getLimits(domain: string): DestinationLimits {
+    return getDestinationLimits(this.config, domain);
+  }
+
+  /**
+   * Check whether another connection to a domain may be opened now
+   */
+  public hasFreeConnection(domain: string): boolean {
+    return (
+      this.totalConnections < this.config.maxConnections &&
+      (this.connections.get(domain) || 0) < this.getLimits(domain).maxConnections
+    );
+  }
+
+  /**
+   * Wait until the global connection limit allows another connection
+   */
+  public async waitForConnection(): Promise<void> {
+    while (this.totalConnections >= this.config.maxConnections) {
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+  }
+
+  /**
+   * Milliseconds until the global and destination rate limits allow a message to a domain
+   * @returns 0 if the message may be sent now
+   */
+  public rateDelay(domain: string, now = Date.now()): number {
+    return Math.max(
+      this.rates.delay('*', this.config.messagesPerMinute, now),
+      this.rates.delay(domain, this.getLimits(domain).messagesPerMinute, now)
+    );
+  }
+
+  /**
+   * Count a connection delivering one message to a domain, until it is released
+   */
+  public acquire(domain: string, now = Date.now()): void {
+    this.rates.take('*', this.config.messagesPerMinute, now);
+    this.rates.take(domain, this.getLimits(domain).messagesPerMinute, now);
+    this.connections.set(domain, (this.connections.get(domain) || 0) + 1);
+    this.totalConnections++;
+  }
+
+  public release(domain: string): void {
+    const count = (this.connections.get(domain) || 0) - 1;
+    if (count > 0) {
+      this.connections.set(domain, count);
+    } else {
+      this.connections.delete(domain);
+    }
+    this.totalConnections--;
+    this.waiters.shift()?.();
+  }
+}
@@ -0,0 +1,208 @@
+import tls from 'tls';
+import SMTPConnection from 'nodemailer/lib/smtp-connection/index.js';
+import { DeliveryEnvelope, TlsInfo } from './delivery.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ component: 'pool' });
+
+/**
+ * Milliseconds an idle connection is kept open for the next message to the same host
+ */
+const IDLE_TIMEOUT = 30 * 1000;
+
+export interface SentMessage {
+  info: SMTPConnection.SentMessageInfo;
+  tls?: TlsInfo;
+}
+
+interface PooledConnection {
+  key: string;
+  connection: SMTPConnection;
+  /** Messages sent over the connection */
+  messages: number;
+  closed: boolean;
+  idleTimer?: ReturnType<typeof setTimeout>;
+  /** Fails the running command when the connection breaks */
+  onFailure?: (error: Error) => void;
+}
+
+/**
+ * Get the negotiated TLS parameters of a connection
+ */
+function getTlsInfo(connection: SMTPConnection): TlsInfo | undefined {
+  const socket = connection._socket as tls.TLSSocket;
+  if (!connection.secure || typeof socket.getProtocol !== 'function') return undefined;
+
+  return {
+    version: socket.getProtocol() || 'unknown',
+    cipher: socket.getCipher()?.name || 'unknown',
+    authorized: socket.authorized,
+  };
+}
+
+/**
+ * Whether a reused connection failed in a way a new connection may not, e.g. the server
+ * closed the idle session or limits the messages per connection with a 421 reply
+ */
+function isStaleConnectionError(error: unknown): boolean {
+  const { code, responseCode } = error as { code?: string; responseCode?: number };
+  return (code !== 'EENVELOPE' && code !== 'EMESSAGE') || responseCode === 421;
+}
+
+/**
+ * Outbound SMTP connections kept open between messages. Connections are keyed by MX host,
+ * address and connection options, so a session is only reused for an identical route.
+ */
+export class SmtpConnectionPool {
+  private idle = new Map<string, PooledConnection[]>();
+
+  /**
+   * Send a message, over an idle connection to the same route if there is one
+   * @param key Key of the route, connections are only shared within a key
+   * @param options Options of new connections
+   * @param envelope SMTP envelope
+   * @param message Raw message
+   * @param maxMessages Messages after which the connection is closed
+   * @param credentials Credentials new connections authenticate with, e.g. at a smarthost
+   */
+  public async send(
+    key: string,
+    options: SMTPConnection.Options,
+    envelope: DeliveryEnvelope,
+    message: Buffer,
+    maxMessages: number,
+    credentials?: SMTPConnection.Credentials
+  ): Promise<SentMessage> {
+    const reused = this.takeIdle(key);
+    if (reused) {
+      try {
+        return await this.sendOver(reused, envelope, message, maxMessages);
+      } catch (error) {
+        if (!isStaleConnectionError(error)) throw error;
+        log.debug('Reused connection failed, opening a new one', { key, error });
+      }
+    }
+
+    const pooled = await this.connect(key, options, credentials);
+    return this.sendOver(pooled, envelope, message, maxMessages);
+  }
+
+  /**
+   * Close all idle connections
+   */
+  public close(): void {
+    for (const connections of this.idle.values()) {
+      connections.forEach(pooled => this.quit(pooled));
+    }
+    this.idle.clear();
+  }
+
+  private connect(
+    key: string,
+    options: SMTPConnection.Options,
+    credentials?: SMTPConnection.Credentials
+  ): Promise<PooledConnection> {
+    const connection = new SMTPConnection(options);
+    const pooled: PooledConnection = { key, connection, messages: 0, closed: false };
+
+    const fail = (error: Error) => {
+      pooled.closed = true;
+      this.removeIdle(pooled);
+      const onFailure = pooled.onFailure;
+      pooled.onFailure = undefined;
+      onFailure?.(error);
+    };
+    connection.on('error', error => fail(error));
+    connection.on('end', () => fail(new Error('Connection closed unexpectedly')));
+
+    return new Promise((resolve, reject) => {
+      pooled.onFailure = reject;
+      connection.connect(() => {
+        if (!credentials) {
+          pooled.onFailure = undefined;
+          return resolve(pooled);
+        }
+
+        connection.login(credentials, err => {
+          pooled.onFailure = undefined;
+          if (err) {
+            this.destroy(pooled);
+            return reject(err);
+          }
+          resolve(pooled);
+        });
+      });
+    });
+  }
+
+  private sendOver(
+    pooled: PooledConnection,
+    envelope: DeliveryEnvelope,
+    message: Buffer,
+    maxMessages: number
+  ): Promise<SentMessage> {
+    return new Promise((resolve, reject) => {
+      pooled.onFailure = reject;
+      pooled.connection.send(envelope, message, (err, info) => {
+        pooled.onFailure = undefined;
+        if (err) {
+          // The session state is unknown after an error, it is not reused
+          this.destroy(pooled);
+          return reject(err);
+        }
+
+        pooled.messages++;
+        const result = { info, tls: getTlsInfo(pooled.connection) };
+        if (pooled.messages >= maxMessages) {
+          this.quit(pooled);
+        } else {
+          this.park(pooled);
+        }
+        resolve(result);
+      });
+    });
+  }
+
+  private takeIdle(key: string): PooledConnection | undefined {
+    const connections = this.idle.get(key);
+    const pooled = connections?.pop();
+    if (connections?.length === 0) this.idle.delete(key);
+    if (pooled) clearTimeout(pooled.idleTimer);
+    return pooled;
+  }
+
+  private park(pooled: PooledConnection): void {
+    if (pooled.closed) return;
+    pooled.idleTimer = setTimeout(() => {
+      this.removeIdle(pooled);
+      this.quit(pooled);
+    }, IDLE_TIMEOUT);
+    const connections = this.idle.get(pooled.key) || [];
+    connections.push(pooled);
+    this.idle.set(pooled.key, connections);
+  }
+
+  private removeIdle(pooled: PooledConnection): void {
+    clearTimeout(pooled.idleTimer);
+    const connections = this.idle.get(pooled.key);
+    if (!connections) return;
+    const remaining = connections.filter(item => item !== pooled);
+    if (remaining.length > 0) {
+      this.idle.set(pooled.key, remaining);
+    } else {
+      this.idle.delete(pooled.key);
+    }
+  }
+
+  private quit(pooled: PooledConnection): void {
+    if (pooled.closed) return;
+    pooled.closed = true;
+    pooled.connection.quit();
+  }
+
+  private destroy(pooled: PooledConnection): void {
+    if (pooled.closed) return;
+    pooled.closed = true;
+    pooled.connection.close();
+  }
+}
@@ -1,337 +1,332 @@
-import fs from 'fs';
-import path from 'path';
-import { SMTPServer, SMTPServerOptions } from 'smtp-server';
-import { simpleParser, HeaderLines, AddressObject } from 'mailparser';
-import nodemailer from 'nodemailer';
-import { DkimConfig, TinkSESConfig } from './config.js';
-import dns from 'dns';
-import { promisify } from 'util';
-import { createRequire } from 'module';
-
-import { SendMailOptions } from 'nodemailer';
-
-// Define a type for address objects returned by addressparser
-interface EmailAddress {
-  address: string;
-  name?: string;
+import { SMTPServer, SMTPServerOptions, SMTPServerSession } from 'smtp-server';
+import {
+  getDmarcReportConfig,
+  getDomainConfig,
+  getDomainConfigs,
+  getSuppressionConfig,
+  TinkSESConfig,
+} from './config.js';
+import { InvalidRecipientError, MailPipeline } from './pipeline.js';
+import { buildReceivedHeader, getFromDomain } from './message.js';
+import { getDkimSigningDomain } from './delivery.js';
+import { checkDmarcAlignment, DmarcPolicyResolver } from './dmarc.js';
+import { storeDmarcReportMessage } from './dmarc-report.js';
+import { authenticateUser, isSenderAllowed } from './users.js';
+import { loadTlsCredentials, watchTlsCredentials } from './tls-certificates.js';
+import { logger } from './logger.js';
+import { messagesAccepted, smtpAuth, smtpConnections } from './metrics.js';
+
+export { createDkimSigner } from './delivery.js';
+
+const log = logger.child({ component: 'smtp' });
+
+/**
+ * Logger for the lines of an SMTP session, the session ID correlates them
+ */
+function sessionLog(session: SMTPServerSession) {
+  return log.child({ sessionId: session.id });
 }
 
-// Import addressparser with createRequire since it doesn't have proper types
-const require = createRequire(import.meta.url);
-const addressparser = require('nodemailer/lib/addressparser');
-
-export function createDkimSigner(domain: string, dkimConfig: DkimConfig) {
-  try {
-    const privateKey = dkimConfig.privateKey;
-    if (!privateKey) return undefined;
-
-    return {
-      domainName: domain,
-      keySelector: dkimConfig.selector,
-      privateKey,
-    };
-  } catch (error) {
-    console.error('Error loading DKIM private key:', error);
-    return undefined;
-  }
-}
-
-const resolveMxWithRetry = async (domain: string, retries = 3): Promise<dns.MxRecord[]> => {
-  let lastError: any;
-  for (let attempt = 1; attempt <= retries; attempt++) {
-    try {
-      return await promisify(dns.resolveMx)(domain);
-    } catch (err) {
-      lastError = err;
-      if (attempt < retries) {
-        console.warn(`[WARN] MX lookup failed for ${domain} (attempt ${attempt}), retrying...`);
-        await new Promise(res => setTimeout(res, 200 * attempt));
-      }
-    }
-  }
-  throw lastError;
-};
-
 export class SmtpServer {
   private server: SMTPServer;
+  private secureServer?: SMTPServer;
   private config: TinkSESConfig;
-
-  constructor(config: TinkSESConfig) {
+  private pipeline: MailPipeline;
+  /** The pipeline was created by the server, which starts and stops it */
+  private ownsPipeline: boolean;
+  private dmarcPolicies = new DmarcPolicyResolver();
+  private stopWatchingCertificates?: () => void;
+
+  /**
+   * @param config TinkSES configuration
+   * @param pipeline Pipeline accepted messages are submitted to, e.g. shared with the HTTP API.
+   * Without it the server creates its own and starts and stops it with the listeners.
+   */
+  constructor(config: TinkSESConfig, pipeline?: MailPipeline) {
     this.config = config;
+    this.pipeline = pipeline || new MailPipeline(config);
+    this.ownsPipeline = !pipeline;
+
+    this.server = this.createServer(false);
+    if (config.tls?.implicitPort) {
+      this.secureServer = this.createServer(true);
+    }
+  }
+
+  /**
+   * Create an SMTP listener
+   * @param secure Whether the listener uses implicit TLS, otherwise STARTTLS is offered
+   */
+  private createServer(secure: boolean): SMTPServer {
+    const tlsConfig = this.config.tls;
+    const reportConfig = getDmarcReportConfig(this.config);
 
     const options: SMTPServerOptions = {
-      secure: false, // Changed to false for development
+      secure,
+      ...(tlsConfig ? loadTlsCredentials(tlsConfig) : {}),
       disableReverseLookup: true,
       authMethods: ['PLAIN', 'LOGIN'],
-      allowInsecureAuth: true,
+      // Reports are sent by receivers without authentication, only to the report address
+      authOptional: !!reportConfig.address,
+      // Limits unauthenticated messages, not advertised since submissions may be larger
+      ...(reportConfig.address ? { size: reportConfig.maxSize, hideSize: true } : {}),
+      // Without certificates the server is meant for local use only
+      allowInsecureAuth: !tlsConfig || tlsConfig.requireTlsForAuth === false,
 
       onAuth: (auth, session, callback) => {
-        const username = auth.username;
-        const password = auth.password;
-
-        console.log(`[AUTH] Attempt: ${username}`);
-
-        // Simple authentication check against config
-        if (username === this.config.username && password === this.config.password) {
-          console.log(`[AUTH] SUCCESS: User '${username}' authenticated`);
-          callback(null, { user: username });
-        } else {
-          console.log(`[AUTH] FAILED: Invalid credentials for user '${username}'`);
-          callback(new Error('Invalid username or password'));
-        }
+        const username = auth.username || '';
+        const password = auth.password || '';
+
+        // Check the credentials against the configured users
+        authenticateUser(this.config, username, password)
+          .then(valid => {
+            if (valid) {
+              smtpAuth.inc({ result: 'success' });
+              sessionLog(session).info('Authentication succeeded', { username });
+              callback(null, { user: username });
+            } else {
+              smtpAuth.inc({ result: 'failure' });
+              sessionLog(session).warn('Authentication failed', { username });
+              callback(new Error('Invalid username or password'));
+            }
+          })
+          .catch(error => {
+            sessionLog(session).error('Error checking credentials', { error });
+            callback(new Error('Error checking credentials'));
+          });
       },
 
       onConnect: (session, callback) => {
-        console.log(`[CONN] New connection from ${session.remoteAddress}`);
+        smtpConnections.inc();
+        sessionLog(session).info('New connection', { remoteAddress: session.remoteAddress });
         callback();
       },
 
       onMailFrom: (address, session, callback) => {
-        console.log(`[FROM] ${address.address}`);
+        sessionLog(session).debug('MAIL FROM', { from: address.address });
 
-        // Ensure the from address is from the configured domain
+        // Unauthenticated sessions may only send reports, their recipients are checked instead
+        if (!session.user) {
+          return callback();
+        }
+
+        // Ensure the from address is from one of the configured domains
         const [, domain] = address.address.split('@');
-        if (domain !== this.config.domain) {
-          console.log(`[ERROR] Domain '${domain}' not allowed, expected '${this.config.domain}'`);
+        if (!domain || !getDomainConfig(this.config, domain)) {
+          const allowed = Object.keys(getDomainConfigs(this.config)).join(', ');
+          sessionLog(session).warn('Sender domain not allowed', { domain, allowed });
           return callback(new Error(`Sending from domain ${domain} not allowed`));
         }
 
+        // Users may be restricted to specific sender addresses or domains
+        if (!isSenderAllowed(this.config, session.user, address.address)) {
+          sessionLog(session).warn('Sender not allowed for user', {
+            username: session.user,
+            from: address.address,
+          });
+          return callback(new Error(`Sending as ${address.address} not allowed`));
+        }
+
         callback();
       },
 
       onRcptTo: (address, session, callback) => {
-        console.log(`[TO] ${address.address}`);
+        sessionLog(session).debug('RCPT TO', { to: address.address });
+
+        if (!session.user) {
+          if (address.address.toLowerCase() !== reportConfig.address?.toLowerCase()) {
+            const error = new Error('Authentication required');
+            return callback(Object.assign(error, { responseCode: 530 }));
+          }
+          return callback();
+        }
+
+        // Suppressed recipients are dropped when the message is submitted, or refused here
+        const suppression = this.pipeline.findSuppression(address.address);
+        if (suppression && getSuppressionConfig(this.config).action === 'reject') {
+          sessionLog(session).info('Suppressed recipient rejected', {
+            to: address.address,
+            reason: suppression.reason,
+          });
+          const error = new Error(`Recipient ${address.address} is on the suppression list`);
+          return callback(Object.assign(error, { responseCode: 550 }));
+        }
+
         callback();
       },
 
       onData: (stream, session, callback) => {
-        console.log('[DATA] Receiving message data...');
+        sessionLog(session).debug('Receiving message data');
 
         const chunks: Buffer[] = [];
+        let size = 0;
         stream.on('data', chunk => {
-          chunks.push(chunk);
+          size += chunk.length;
+          // Oversized reports are refused at the end, without keeping them in memory
+          if (session.user || size <= reportConfig.maxSize) {
+            chunks.push(chunk);
+          }
         });
 
         stream.on('end', async () => {
           const messageBuffer = Buffer.concat(chunks);
 
-          try {
-            // Parse the email
-            const parsedMail = await simpleParser(messageBuffer);
-            const from = session.envelope.mailFrom ? session.envelope.mailFrom.address : 'unknown';
-            const to = session.envelope.rcptTo.map(rcpt => rcpt.address).join(', ');
-            const subject = parsedMail.subject || '(No Subject)';
-            const messageId =
-              parsedMail.messageId ||
-              `<${Date.now()}.${Math.random().toString(36).substring(2)}@${this.config.domain}>`;
-
-            console.log('┌──────────────────────────────────────────────────────');
-            console.log(`│ MESSAGE RECEIVED:`);
-            console.log(`│ From: ${from}`);
-            console.log(`│ To: ${to}`);
-            console.log(`│ Subject: ${subject}`);
-            console.log(`│ MessageID: ${messageId}`);
-            console.log('└──────────────────────────────────────────────────────');
-
-            // Create base mail options
-            const flattenAddresses = (field: any) => {
-              if (!field) return '';
-              if (Array.isArray(field)) {
-                return field
-                  .map((addr: any) => (typeof addr === 'string' ? addr : addr.text || addr.address))
-                  .join(', ');
-              }
-              if (typeof field === 'string') return field;
-              if (field.text) return field.text;
-              if (field.value && Array.isArray(field.value)) {
-                return field.value.map((addr: any) => addr.address || addr.text).join(', ');
-              }
-              return '';
-            };
-
-            const mailOptions: SendMailOptions = {
-              from: from,
-              to: flattenAddresses(parsedMail.to) || to,
-              cc: flattenAddresses(parsedMail.cc),
-              bcc: flattenAddresses(parsedMail.bcc),
-              subject: subject,
-              [parsedMail.html ? 'html' : 'text']:
-                parsedMail.html || parsedMail.text || '(no content)',
-              attachments:
-                (parsedMail.attachments as unknown as SendMailOptions['attachments']) || [],
-              messageId: messageId,
-              /* headers: parsedMail.headerLines
-                .filter(
-                  header =>
-                    !['from', 'to', 'cc', 'bcc', 'subject', 'message-id'].includes(
-                      header.key.toLowerCase()
-                    )
-                )
-                .map(header => ({
-                  key: header.key,
-                  value: header.line,
-                })), */
-            };
-
-            // Get the from address domain for DKIM
-            const fromAddress: EmailAddress = addressparser(from, { flatten: true })[0];
-            const fromDomain = fromAddress.address.split('@')[1];
-
-            // Create recipient list from envelope or headers
-            let recipientsStr = to;
-            if (parsedMail.cc)
-              recipientsStr += ',' + (typeof parsedMail.cc === 'string' ? parsedMail.cc : to);
-            if (parsedMail.bcc)
-              recipientsStr += ',' + (typeof parsedMail.bcc === 'string' ? parsedMail.bcc : '');
-
-            const recipients: EmailAddress[] = addressparser(recipientsStr, { flatten: true });
-
-            console.log(`Recipients: ${recipients.map((r: EmailAddress) => r.address).join(', ')}`);
-
-            // Group recipients by domain
-            const recipientGroups: Record<string, EmailAddress[]> = {};
-            for (const recipient of recipients) {
-              const recipientDomain = recipient.address.split('@')[1];
-              if (!recipientGroups[recipientDomain]) {
-                recipientGroups[recipientDomain] = [];
-              }
-              recipientGroups[recipientDomain].push(recipient);
+          if (!session.user) {
+            if (stream.sizeExceeded) {
+              sessionLog(session).warn('DMARC report too large', { size });
+              const error = new Error(
+                `Message exceeds the maximum size of ${reportConfig.maxSize} bytes`
+              );
+              return callback(Object.assign(error, { responseCode: 552 }));
             }
+            try {
+              const file = storeDmarcReportMessage(reportConfig.dir, messageBuffer);
+              sessionLog(session).info('DMARC report received', { file });
+              callback();
+            } catch (error) {
+              sessionLog(session).error('Error storing DMARC report', { error });
+              callback(new Error('Error storing message'));
+            }
+            return;
+          }
 
-            // Create DKIM signer
-            const dkimSigner = createDkimSigner(this.config.domain, this.config.dkim);
-
-            // Track delivery results
-            const results = {
-              success: [] as string[],
-              failed: [] as { domain: string; error: string }[],
-            };
-
-            // Send to each domain group
-            for (const domain in recipientGroups) {
-              const domainRecipients = recipientGroups[domain];
-              console.log(
-                `Processing domain: ${domain} with ${domainRecipients.length} recipients`
-              );
+          try {
+            const from = session.envelope.mailFrom ? session.envelope.mailFrom.address : '';
+            const recipients = session.envelope.rcptTo.map(rcpt => rcpt.address);
 
-              const domainMessage = {
-                envelope: {
-                  from: from,
-                  to: domainRecipients.map(to => to.address),
-                },
-                ...mailOptions,
-              };
-
-              try {
-                // Look up MX records for the domain with retry
-                const mx = await resolveMxWithRetry(domain, 3);
-                const priorityMx = mx.sort((a, b) => a.priority - b.priority)[0];
-                const mxHost = priorityMx.exchange;
-                const mxPort = 25;
-
-                console.log(`Using MX record: ${mxHost}:${mxPort} for domain ${domain}`);
-
-                // Create a transport for this specific domain
-                const transport = nodemailer.createTransport({
-                  host: mxHost,
-                  port: mxPort,
-                  secure: false,
-                  name: fromDomain,
-                  debug: true,
-                  tls: {
-                    rejectUnauthorized: false,
-                  },
-                  dkim: dkimSigner,
-                });
-
-                // Send the email
-                const info = await transport.sendMail(domainMessage);
-                console.log(`[SUCCESS] Email sent to ${domain} (${info.messageId})`);
-                results.success.push(domain);
-              } catch (error) {
-                const errorMessage = error instanceof Error ? error.message : String(error);
-                console.error(`[ERROR] Failed to send to domain ${domain}:`, error);
-                results.failed.push({
-                  domain,
-                  error: errorMessage,
-                });
-                // Continue with other domains even if one fails
-              }
+            const rejection = await this.checkDmarc(session, from, messageBuffer);
+            if (rejection) {
+              return callback(rejection);
             }
 
-            // Log summary of results
-            console.log('┌──────────────────────────────────────────────────────');
-            console.log(`│ DELIVERY RESULTS:`);
-            console.log(`│ Success: ${results.success.length} domains`);
-            console.log(`│ Failed: ${results.failed.length} domains`);
-            if (results.failed.length > 0) {
-              console.log(`│ Failed domains:`);
-              results.failed.forEach(failure => {
-                console.log(`│   - ${failure.domain}: ${failure.error}`);
-              });
-            }
-            console.log('└──────────────────────────────────────────────────────');
-
-            // Return appropriate response based on results
-            if (results.failed.length > 0) {
-              if (results.success.length > 0) {
-                // Partial success
-                const error = new Error(
-                  `Partial delivery: ${results.success.length} succeeded, ${results.failed.length} failed`
-                );
-                // @ts-ignore - Adding custom properties to Error
-                error.deliveryResults = results;
-                callback(error);
-              } else {
-                // Complete failure
-                const error = new Error(`Delivery failed to all ${results.failed.length} domains`);
-                // @ts-ignore - Adding custom properties to Error
-                error.deliveryResults = results;
-                callback(error);
-              }
-            } else {
-              // Complete success
-              callback();
-            }
+            await this.pipeline.submit(
+              from,
+              recipients,
+              messageBuffer,
+              [this.receivedHeader(session, recipients)],
+              sessionLog(session),
+              session.user && `user:${session.user}`
+            );
+            messagesAccepted.inc({ source: 'smtp' });
+
+            callback();
           } catch (error) {
-            console.log('┌──────────────────────────────────────────────────────');
-            console.log(`│ ERROR PROCESSING MESSAGE:`);
-            console.log(`│ ${error instanceof Error ? error.message : String(error)}`);
-            console.log('└──────────────────────────────────────────────────────');
+            if (error instanceof InvalidRecipientError) {
+              return callback(Object.assign(error, { responseCode: 553 }));
+            }
+            sessionLog(session).error('Error processing message', { error });
             callback(new Error('Error processing message'));
           }
         });
       },
     };
 
-    this.server = new SMTPServer(options);
+    const server = new SMTPServer(options);
 
-    this.server.on('error', err => {
-      console.log('┌──────────────────────────────────────────────────────');
-      console.log(`│ SMTP SERVER ERROR:`);
-      console.log(`│ ${err instanceof Error ? err.message : String(err)}`);
-      console.log('└──────────────────────────────────────────────────────');
+    server.on('error', err => {
+      log.error('SMTP server error', { error: err });
     });
+
+    return server;
   }
 
-  public start(): void {
-    this.server.listen(this.config.port, this.config.host, () => {
-      console.log('┌──────────────────────────────────────────────────────');
-      console.log(`│ SMTP SERVER STARTED`);
-      console.log(`│ Listening on: ${this.config.host}:${this.config.port}`);
-      console.log(`│ Domain: ${this.config.domain}`);
-      console.log('└──────────────────────────────────────────────────────');
+  /**
+   * Check that a message would pass DMARC at receivers: its From header domain must align
+   * with the domain it is DKIM signed for or with the envelope sender domain
+   * @param from Envelope sender
+   * @param message Raw message
+   * @returns Error to reject the message with, if its domain is set to reject such messages
+   */
+  private async checkDmarc(
+    session: SMTPServerSession,
+    from: string,
+    message: Buffer
+  ): Promise<Error | undefined> {
+    // Recomposed messages get the envelope sender as From header
+    if (this.config.relayMode === 'recompose') return undefined;
+    const fromDomain = getFromDomain(message);
+    if (!fromDomain) return undefined;
+
+    // Receivers apply the published record, the configured settings apply until it exists
+    const configured = getDomainConfig(this.config, fromDomain)?.dmarc;
+    const record =
+      (await this.dmarcPolicies.getRecord(fromDomain)) ||
+      (configured && {
+        dkimAlignment: configured.dkimAlignment || 'r',
+        spfAlignment: configured.spfAlignment || 'r',
+      });
+    if (!record) return undefined;
+
+    const envelopeDomain = from.split('@')[1] || '';
+    const dkimDomain = getDkimSigningDomain(this.config, message, from);
+    if (checkDmarcAlignment(fromDomain, [dkimDomain], envelopeDomain, record).pass) {
+      return undefined;
+    }
+
+    const details = { fromDomain, dkimDomain, envelopeDomain };
+    const action = (configured || getDomainConfig(this.config, envelopeDomain)?.dmarc)
+      ?.alignmentAction;
+    if (action !== 'reject') {
+      sessionLog(session).warn('Message would fail DMARC', details);
+      return undefined;
+    }
+
+    sessionLog(session).warn('Message rejected, it would fail DMARC', details);
+    const error = new Error(
+      `Message would fail DMARC, the From domain ${fromDomain} is not aligned with the DKIM domain ${dkimDomain} or the envelope sender domain`
+    );
+    return Object.assign(error, { responseCode: 550 });
+  }
+
+  private getServers(): SMTPServer[] {
+    return this.secureServer ? [this.server, this.secureServer] : [this.server];
+  }
+
+  /**
+   * Build the Received trace header for a message submitted in a session
+   */
+  private receivedHeader(session: SMTPServerSession, recipients: string[]): string {
+    return buildReceivedHeader({
+      heloName: session.hostNameAppearsAs,
+      remoteAddress: session.remoteAddress,
+      by: this.config.domain,
+      protocol: session.transmissionType,
+      id: session.id,
+      recipients,
     });
   }
 
-  public stop(): Promise<void> {
-    return new Promise(resolve => {
-      this.server.close(() => {
-        console.log('┌──────────────────────────────────────────────────────');
-        console.log(`│ SMTP SERVER STOPPED`);
-        console.log('└──────────────────────────────────────────────────────');
-        resolve();
+  public start(): void {
+    if (this.ownsPipeline) this.pipeline.start();
+    this.server.listen(this.config.port, this.config.host, () => {
+      log.info('SMTP server started', {
+        listen: `${this.config.host}:${this.config.port}`,
+        starttls: this.config.tls ? 'enabled' : 'default self-signed certificate',
+        domains: Object.keys(getDomainConfigs(this.config)),
       });
     });
+
+    if (this.secureServer && this.config.tls?.implicitPort) {
+      const port = this.config.tls.implicitPort;
+      this.secureServer.listen(port, this.config.host, () => {
+        log.info('Implicit TLS listener started', { listen: `${this.config.host}:${port}` });
+      });
+    }
+
+    if (this.config.tls) {
+      this.stopWatchingCertificates = watchTlsCredentials(this.config.tls, credentials => {
+        this.getServers().forEach(server => server.updateSecureContext(credentials));
+        log.info('Certificates reloaded');
+      });
+    }
+  }
+
+  public async stop(): Promise<void> {
+    this.stopWatchingCertificates?.();
+    await Promise.all(
+      this.getServers().map(server => new Promise<void>(resolve => server.close(() => resolve())))
+    );
+    if (this.ownsPipeline) await this.pipeline.stop();
+    log.info('SMTP server stopped');
   }
 }
@@ -0,0 +1,495 @@
+import dns from 'dns';
+import net from 'net';
+
+/**
+ * DNS lookups used to evaluate SPF records, replaceable to test against fixture zones
+ */
+export interface SpfDnsResolver {
+  resolveTxt(name: string): Promise<string[][]>;
+  resolve4(name: string): Promise<string[]>;
+  resolve6(name: string): Promise<string[]>;
+  resolveMx(name: string): Promise<dns.MxRecord[]>;
+  reverse(ip: string): Promise<string[]>;
+}
+
+export const defaultSpfResolver: SpfDnsResolver = {
+  resolveTxt: name => dns.promises.resolveTxt(name),
+  resolve4: name => dns.promises.resolve4(name),
+  resolve6: name => dns.promises.resolve6(name),
+  resolveMx: name => dns.promises.resolveMx(name),
+  reverse: ip => dns.promises.reverse(ip),
+};
+
+export type SpfResult =
+  | 'pass'
+  | 'fail'
+  | 'softfail'
+  | 'neutral'
+  | 'none'
+  | 'permerror'
+  | 'temperror';
+
+export interface SpfEvaluation {
+  result: SpfResult;
+  /**
+   * Mechanism that decided the result, with the includes leading to it,
+   * e.g. `include:_spf.example.net > ip4:192.0.2.0/24`
+   */
+  mechanism?: string;
+  /** DNS lookups counted against the limit of 10 */
+  lookups: number;
+  /** Why the result is `permerror` or `temperror` */
+  error?: string;
+  /** Problems of the evaluated records that do not change the result, e.g. `+all` */
+  warnings: string[];
+}
+
+export interface SpfCheckOptions {
+  resolver?: SpfDnsResolver;
+  /** Envelope sender, defaults to postmaster at the checked domain */
+  sender?: string;
+  /** HELO name, defaults to the checked domain */
+  helo?: string;
+}
+
+/**
+ * Limits of RFC 7208 section 4.6.4
+ */
+export const MAX_SPF_LOOKUPS = 10;
+const MAX_VOID_LOOKUPS = 2;
+const MAX_NAMES = 10;
+
+const QUALIFIER_RESULTS: Record<string, SpfResult> = {
+  '+': 'pass',
+  '-': 'fail',
+  '~': 'softfail',
+  '?': 'neutral',
+};
+
+const MECHANISM_PATTERN =
+  /^([+\-~?]?)(all|include|a|mx|ptr|ip4|ip6|exists)(?::([^/]+))?(?:\/(\d+))?(?:\/\/(\d+))?$/i;
+
+const MODIFIER_PATTERN = /^([a-z][a-z0-9_.-]*)=(.*)$/i;
+
+/**
+ * Makes the evaluation end with `permerror` or `temperror`
+ */
+class SpfError extends Error {
+  result: 'permerror' | 'temperror';
+
+  constructor(result: 'permerror' | 'temperror', message: string) {
+    super(message);
+    this.result = result;
+  }
+}
+
+interface Mechanism {
+  qualifier: string;
+  name: string;
+  domainSpec?: string;
+  cidr4?: number;
+  cidr6?: number;
+  /** The term as written in the record */
+  term: string;
+}
+
+interface EvaluationContext {
+  ip: string;
+  sender: string;
+  helo: string;
+  resolver: SpfDnsResolver;
+  lookups: number;
+  voidLookups: number;
+  warnings: string[];
+  /** Evaluate every mechanism without a match, to count the lookups of the whole record */
+  matchNothing: boolean;
+}
+
+interface HostResult {
+  result: SpfResult;
+  path: string[];
+}
+
+/**
+ * The name exists without records of the requested type, or does not exist at all
+ */
+function isNoData(error: unknown): boolean {
+  const code = (error as { code?: string }).code;
+  return code === 'ENODATA' || code === 'ENOTFOUND';
+}
+
+/**
+ * Run a DNS lookup, a missing name or record is an empty answer
+ */
+async function lookup<T>(name: string, query: () => Promise<T[]>): Promise<T[]> {
+  try {
+    return await query();
+  } catch (error) {
+    if (isNoData(error)) return [];
+    throw new SpfError('temperror', `DNS lookup of ${name} failed: ${(error as Error).message}`);
+  }
+}
+
+function countLookup(ctx: EvaluationContext, term: string): void {
+  ctx.lookups++;
+  if (ctx.lookups > MAX_SPF_LOOKUPS) {
+    throw new SpfError(
+      'permerror',
+      `More than ${MAX_SPF_LOOKUPS} DNS lookups, exceeded at ${term}`
+    );
+  }
+}
+
+function countVoidLookup(ctx: EvaluationContext, term: string): void {
+  ctx.voidLookups++;
+  if (ctx.voidLookups > MAX_VOID_LOOKUPS) {
+    throw new SpfError(
+      'permerror',
+      `More than ${MAX_VOID_LOOKUPS} lookups without an answer, exceeded at ${term}`
+    );
+  }
+}
+
+/**
+ * Check whether an address is in a network
+ * @param prefix Prefix length, the whole address if omitted
+ */
+export function inNetwork(ip: string, network: string, prefix?: number): boolean {
+  const type = net.isIPv6(ip) ? 'ipv6' : 'ipv4';
+  if (net.isIPv6(network) !== (type === 'ipv6')) return false;
+  const list = new net.BlockList();
+  list.addSubnet(network, prefix ?? (type === 'ipv6' ? 128 : 32), type);
+  return list.check(ip, type);
+}
+
+/**
+ * Write an IPv6 address as dot separated nibbles, like the `i` macro
+ */
+export function ipv6Nibbles(ip: string): string {
+  const [head, tail] = ip.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const groups =
+    tail === undefined
+      ? headGroups
+      : [
+          ...headGroups,
+          ...Array(8 - headGroups.length - tailGroups.length).fill('0'),
+          ...tailGroups,
+        ];
+  return groups
+    .map(group => group.padStart(4, '0'))
+    .join('')
+    .split('')
+    .join('.');
+}
+
+/**
+ * Expand the macros of a domain spec (RFC 7208 section 7)
+ * @param spec Domain spec of a mechanism or modifier
+ * @param domain Domain of the record being evaluated
+ */
+function expandDomainSpec(ctx: EvaluationContext, spec: string, domain: string): string {
+  if (/%(?!\{[a-z]\d*r?[.\-+,/_=]*\}|[%_-])/i.test(spec)) {
+    throw new SpfError('permerror', `Invalid macro in ${spec}`);
+  }
+
+  const [localPart, senderDomain] = ctx.sender.split('@');
+  const values: Record<string, string> = {
+    s: ctx.sender,
+    l: localPart,
+    o: senderDomain,
+    d: domain,
+    i: net.isIPv6(ctx.ip) ? ipv6Nibbles(ctx.ip) : ctx.ip,
+    p: 'unknown',
+    v: net.isIPv6(ctx.ip) ? 'ip6' : 'in-addr',
+    h: ctx.helo,
+  };
+
+  const expanded = spec.replace(
+    /%(?:\{([a-z])(\d*)(r?)([.\-+,/_=]*)\}|([%_-]))/gi,
+    (match, letter?: string, digits?: string, reverse?: string, delimiters?: string) => {
+      if (!letter) return { '%%': '%', '%_': ' ', '%-': '%20' }[match] || '';
+
+      const escaped = (delimiters || '.').replace(/[-\\/]/g, '\\$&');
+      let parts = (values[letter.toLowerCase()] || '').split(new RegExp(`[${escaped}]`));
+      if (reverse) parts.reverse();
+      if (digits) parts = parts.slice(-Number(digits));
+      const value = parts.join('.');
+      return letter === letter.toUpperCase() ? encodeURIComponent(value) : value;
+    }
+  );
+
+  // Names longer than 253 characters lose labels on the left
+  let name = expanded.replace(/\.$/, '');
+  while (name.length > 253 && name.includes('.')) {
+    name = name.slice(name.indexOf('.') + 1);
+  }
+  return name;
+}
+
+/**
+ * Parse the terms of an SPF record, a syntax error anywhere makes the record invalid
+ */
+function parseRecord(
+  record: string,
+  domain: string
+): { mechanisms: Mechanism[]; redirect?: string } {
+  const mechanisms: Mechanism[] = [];
+  let redirect: string | undefined;
+  let exp = false;
+
+  for (const term of record.split(' ').slice(1).filter(Boolean)) {
+    const modifier = MODIFIER_PATTERN.exec(term);
+    if (modifier) {
+      const name = modifier[1].toLowerCase();
+      if ((name === 'redirect' && redirect !== undefined) || (name === 'exp' && exp)) {
+        throw new SpfError('permerror', `Duplicate ${name}= modifier in the record of ${domain}`);
+      }
+      if (name === 'redirect') redirect = modifier[2];
+      if (name === 'exp') exp = true;
+      continue;
+    }
+
+    const match = MECHANISM_PATTERN.exec(term);
+    if (!match) {
+      throw new SpfError('permerror', `Invalid term '${term}' in the record of ${domain}`);
+    }
+    const [, qualifier, name, domainSpec, cidr4, cidr6] = match;
+    const mechanism: Mechanism = {
+      qualifier: qualifier || '+',
+      name: name.toLowerCase(),
+      domainSpec,
+      cidr4: cidr4 === undefined ? undefined : Number(cidr4),
+      cidr6: cidr6 === undefined ? undefined : Number(cidr6),
+      term,
+    };
+
+    const valid = {
+      all: !domainSpec && cidr4 === undefined && cidr6 === undefined,
+      include: !!domainSpec && cidr4 === undefined && cidr6 === undefined,
+      exists: !!domainSpec && cidr4 === undefined && cidr6 === undefined,
+      ptr: cidr4 === undefined && cidr6 === undefined,
+      a: (mechanism.cidr4 ?? 0) <= 32 && (mechanism.cidr6 ?? 0) <= 128,
+      mx: (mechanism.cidr4 ?? 0) <= 32 && (mechanism.cidr6 ?? 0) <= 128,
+      ip4: !!domainSpec && net.isIPv4(domainSpec) && (mechanism.cidr4 ?? 0) <= 32 && !cidr6,
+      ip6: !!domainSpec && net.isIPv6(domainSpec) && (mechanism.cidr4 ?? 0) <= 128 && !cidr6,
+    }[mechanism.name];
+    if (!valid) {
+      throw new SpfError('permerror', `Invalid term '${term}' in the record of ${domain}`);
+    }
+    mechanisms.push(mechanism);
+  }
+
+  return { mechanisms, redirect };
+}
+
+/**
+ * Get the SPF record of a domain
+ * @returns The record, or undefined if the domain has none
+ */
+async function getSpfRecord(ctx: EvaluationContext, domain: string): Promise<string | undefined> {
+  const records = (await lookup(domain, () => ctx.resolver.resolveTxt(domain)))
+    .map(chunks => chunks.join(''))
+    .filter(record => /^v=spf1( |$)/i.test(record));
+  if (records.length > 1) {
+    throw new SpfError('permerror', `${domain} has ${records.length} SPF records`);
+  }
+  return records[0];
+}
+
+/**
+ * Get the addresses of a host of the same IP version as the checked address
+ */
+function resolveAddresses(ctx: EvaluationContext, host: string): Promise<string[]> {
+  return lookup(host, () =>
+    net.isIPv6(ctx.ip) ? ctx.resolver.resolve6(host) : ctx.resolver.resolve4(host)
+  );
+}
+
+/**
+ * Check whether a mechanism matches the checked address
+ * @returns The mechanisms leading to the match, undefined if it does not match
+ */
+async function matchMechanism(
+  ctx: EvaluationContext,
+  mechanism: Mechanism,
+  domain: string
+): Promise<string[] | undefined> {
+  const { name, term } = mechanism;
+  const target = mechanism.domainSpec
+    ? expandDomainSpec(ctx, mechanism.domainSpec, domain)
+    : domain;
+  const prefix = net.isIPv6(ctx.ip) ? mechanism.cidr6 : mechanism.cidr4;
+  const matched = (match: boolean) => (match && !ctx.matchNothing ? [term] : undefined);
+
+  switch (name) {
+    case 'all':
+      return matched(true);
+
+    case 'ip4':
+    case 'ip6':
+      return matched(inNetwork(ctx.ip, mechanism.domainSpec!, mechanism.cidr4));
+
+    case 'include': {
+      countLookup(ctx, term);
+      const included = await checkHost(ctx, target);
+      if (included.result === 'temperror') {
+        throw new SpfError('temperror', `Lookup of the record included by ${term} failed`);
+      }
+      if (included.result === 'none' || included.result === 'permerror') {
+        throw new SpfError('permerror', `${term} has no valid SPF record`);
+      }
+      return included.result === 'pass' ? [term, ...included.path] : undefined;
+    }
+
+    case 'a': {
+      countLookup(ctx, term);
+      const addresses = await resolveAddresses(ctx, target);
+      if (addresses.length === 0) countVoidLookup(ctx, term);
+      return matched(addresses.some(address => inNetwork(ctx.ip, address, prefix)));
+    }
+
+    case 'mx': {
+      countLookup(ctx, term);
+      const hosts = await lookup(target, () => ctx.resolver.resolveMx(target));
+      if (hosts.length === 0) countVoidLookup(ctx, term);
+      if (hosts.length > MAX_NAMES) {
+        throw new SpfError('permerror', `${term} has more than ${MAX_NAMES} MX records`);
+      }
+      for (const host of hosts) {
+        const addresses = await resolveAddresses(ctx, host.exchange);
+        if (addresses.some(address => inNetwork(ctx.ip, address, prefix))) return matched(true);
+      }
+      return undefined;
+    }
+
+    case 'ptr': {
+      countLookup(ctx, term);
+      ctx.warnings.push(`${domain} uses the ptr mechanism, which should not be used`);
+      const names = (await lookup(ctx.ip, () => ctx.resolver.reverse(ctx.ip))).slice(0, MAX_NAMES);
+      if (names.length === 0) countVoidLookup(ctx, term);
+      for (const host of names) {
+        const lowerHost = host.toLowerCase().replace(/\.$/, '');
+        const lowerTarget = target.toLowerCase();
+        if (lowerHost !== lowerTarget && !lowerHost.endsWith(`.${lowerTarget}`)) continue;
+        const addresses = await resolveAddresses(ctx, host);
+        if (addresses.some(address => inNetwork(ctx.ip, address))) return matched(true);
+      }
+      return undefined;
+    }
+
+    case 'exists': {
+      countLookup(ctx, term);
+      const addresses = await lookup(target, () => ctx.resolver.resolve4(target));
+      if (addresses.length === 0) countVoidLookup(ctx, term);
+      return matched(addresses.length > 0);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Evaluate the SPF record of a domain for the checked address, the check_host() function
+ * of RFC 7208 section 4
+ */
+async function checkHost(ctx: EvaluationContext, domain: string): Promise<HostResult> {
+  const record = await getSpfRecord(ctx, domain);
+  if (!record) return { result: 'none', path: [] };
+
+  const { mechanisms, redirect } = parseRecord(record, domain);
+  for (const mechanism of mechanisms) {
+    if (mechanism.name === 'all' && mechanism.qualifier === '+') {
+      ctx.warnings.push(`The record of ${domain} ends with ${mechanism.term}, any host passes`);
+    }
+    if (mechanism.name === 'all' && mechanism.qualifier === '?') {
+      ctx.warnings.push(
+        `The record of ${domain} ends with ?all, other hosts are neutral instead of failing`
+      );
+    }
+  }
+
+  for (const mechanism of mechanisms) {
+    const path = await matchMechanism(ctx, mechanism, domain);
+    if (path) return { result: QUALIFIER_RESULTS[mechanism.qualifier], path };
+  }
+
+  // A record with an all mechanism never reaches its redirect
+  if (redirect !== undefined && !mechanisms.some(mechanism => mechanism.name === 'all')) {
+    const term = `redirect=${redirect}`;
+    countLookup(ctx, term);
+    const redirected = await checkHost(ctx, expandDomainSpec(ctx, redirect, domain));
+    if (redirected.result === 'none') {
+      throw new SpfError('permerror', `${term} has no SPF record`);
+    }
+    return { result: redirected.result, path: [term, ...redirected.path] };
+  }
+
+  return { result: 'neutral', path: [] };
+}
+
+/**
+ * Run an evaluation and collect its result
+ */
+async function evaluate(
+  ip: string,
+  domain: string,
+  options: SpfCheckOptions,
+  matchNothing: boolean
+): Promise<SpfEvaluation> {
+  const ctx: EvaluationContext = {
+    ip,
+    sender: options.sender || `postmaster@${domain}`,
+    helo: options.helo || domain,
+    resolver: options.resolver || defaultSpfResolver,
+    lookups: 0,
+    voidLookups: 0,
+    warnings: [],
+    matchNothing,
+  };
+
+  try {
+    const { result, path } = await checkHost(ctx, domain.toLowerCase());
+    return {
+      result,
+      mechanism: path.length > 0 ? path.join(' > ') : undefined,
+      lookups: ctx.lookups,
+      warnings: [...new Set(ctx.warnings)],
+    };
+  } catch (error) {
+    if (!(error instanceof SpfError)) throw error;
+    return {
+      result: error.result,
+      lookups: ctx.lookups,
+      error: error.message,
+      warnings: [...new Set(ctx.warnings)],
+    };
+  }
+}
+
+/**
+ * Evaluate the SPF record of a domain for a sending address, like a receiver does
+ * @param ip Address mail is sent from
+ * @param domain Domain of the envelope sender
+ */
+export function checkSpf(
+  ip: string,
+  domain: string,
+  options: SpfCheckOptions = {}
+): Promise<SpfEvaluation> {
+  return evaluate(ip, domain, options, false);
+}
+
+/**
+ * Count the DNS lookups of the whole SPF record of a domain. Receivers checking an address
+ * that matches no mechanism need all of them, with more than 10 the record is invalid for
+ * every address.
+ * @param domain Domain of the record
+ * @returns Evaluation in which nothing matches, `neutral` unless the record is invalid
+ */
+export function countSpfLookups(
+  domain: string,
+  options: SpfCheckOptions = {}
+): Promise<SpfEvaluation> {
+  return evaluate('192.0.2.0', domain, options, true);
+}
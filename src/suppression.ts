@@ -0,0 +1,207 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from './logger.js';
+
+const log = logger.child({ component: 'suppression' });
+
+/**
+ * `bounce` entries are added when a delivery failed permanently, `complaint` and `manual`
+ * entries with the CLI
+ */
+export type SuppressionReason = 'bounce' | 'complaint' | 'manual';
+
+export const suppressionReasons: SuppressionReason[] = ['bounce', 'complaint', 'manual'];
+
+export interface SuppressionEntry {
+  /** Recipient address, lower case */
+  address: string;
+  reason: SuppressionReason;
+  /** Reply of the failed delivery */
+  response?: string;
+  /** ISO 8601 time the entry was added */
+  createdAt: string;
+  /** ISO 8601 time after which the entry no longer applies, permanent without */
+  expiresAt?: string;
+}
+
+/**
+ * Whether a permanent failure means the address itself is bad (RFC 3463 class 5.1.x, e.g.
+ * user unknown). Other permanent failures like a full mailbox or a policy rejection may
+ * clear up and are only suppressed for a while.
+ * @param enhancedStatus Enhanced status code of the reply
+ */
+export function isHardBounce(enhancedStatus?: string): boolean {
+  return !!enhancedStatus && enhancedStatus.startsWith('5.1.');
+}
+
+function isExpired(entry: SuppressionEntry, now = Date.now()): boolean {
+  return !!entry.expiresAt && Date.parse(entry.expiresAt) <= now;
+}
+
+function csvField(value: string | undefined): string {
+  if (!value) return '';
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Format suppression entries as CSV with a header line
+ */
+export function formatSuppressionCsv(entries: SuppressionEntry[]): string {
+  const lines = ['address,reason,createdAt,expiresAt,response'];
+  for (const entry of entries) {
+    lines.push(
+      [entry.address, entry.reason, entry.createdAt, entry.expiresAt, entry.response]
+        .map(csvField)
+        .join(',')
+    );
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Parse a list of addresses to import: one address per line, or CSV with the address in
+ * the first column and an optional reason in the second one, like the export
+ * @param text File content
+ */
+export function parseSuppressionImport(
+  text: string
+): { address: string; reason?: SuppressionReason }[] {
+  const result: { address: string; reason?: SuppressionReason }[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const [address, reason] = line.split(',').map(field => field.trim());
+    if (!address || address.startsWith('#') || !address.includes('@')) continue;
+    result.push({
+      address,
+      reason: suppressionReasons.includes(reason as SuppressionReason)
+        ? (reason as SuppressionReason)
+        : undefined,
+    });
+  }
+  return result;
+}
+
+/**
+ * Addresses mail is no longer sent to, stored in a JSON file. The file is read again
+ * when it changed, so entries added with the CLI apply to a running server.
+ */
+export class SuppressionList {
+  private filePath: string;
+  private entries = new Map<string, SuppressionEntry>();
+  private loadedMtime?: number;
+
+  /**
+   * @param file Path of the suppression list file
+   */
+  constructor(file: string) {
+    this.filePath = path.resolve(file);
+  }
+
+  /**
+   * Find the entry suppressing an address
+   * @param address Recipient address, case insensitive
+   * @returns The entry, or undefined if mail may be sent to the address
+   */
+  public find(address: string): SuppressionEntry | undefined {
+    this.reload();
+    const entry = this.entries.get(address.toLowerCase());
+    return entry && !isExpired(entry) ? entry : undefined;
+  }
+
+  /**
+   * Get all entries that apply, oldest first
+   */
+  public list(): SuppressionEntry[] {
+    this.reload();
+    return [...this.entries.values()]
+      .filter(entry => !isExpired(entry))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Add or replace entries
+   * @param entries Entries to add, addresses are stored in lower case
+   */
+  public add(...entries: Omit<SuppressionEntry, 'createdAt'>[]): void {
+    this.reload();
+    const createdAt = new Date().toISOString();
+    for (const entry of entries) {
+      const address = entry.address.toLowerCase();
+      this.entries.set(address, { ...entry, address, createdAt });
+    }
+    this.save();
+  }
+
+  /**
+   * Suppress an address after a permanent delivery failure. Hard bounces are permanent,
+   * other failures expire. A permanent entry is never replaced by one that expires.
+   * @param address Recipient address
+   * @param response Reply of the failed delivery
+   * @param enhancedStatus Enhanced status code of the reply
+   * @param softExpiry Seconds after which a soft bounce entry expires
+   */
+  public addBounce(
+    address: string,
+    response: string | undefined,
+    enhancedStatus: string | undefined,
+    softExpiry: number
+  ): void {
+    const hard = isHardBounce(enhancedStatus);
+    const existing = this.find(address);
+    if (existing && !existing.expiresAt && !hard) return;
+
+    this.add({
+      address,
+      reason: 'bounce',
+      response,
+      expiresAt: hard ? undefined : new Date(Date.now() + softExpiry * 1000).toISOString(),
+    });
+    log.info('Recipient suppressed', { recipient: address, hard, response });
+  }
+
+  /**
+   * Remove entries
+   * @param addresses Addresses to remove, case insensitive
+   * @returns Number of removed entries
+   */
+  public remove(...addresses: string[]): number {
+    this.reload();
+    let removed = 0;
+    for (const address of addresses) {
+      if (this.entries.delete(address.toLowerCase())) removed++;
+    }
+    if (removed > 0) this.save();
+    return removed;
+  }
+
+  private reload(): void {
+    const mtime = fs.existsSync(this.filePath) ? fs.statSync(this.filePath).mtimeMs : undefined;
+    if (mtime === this.loadedMtime) return;
+
+    this.entries.clear();
+    this.loadedMtime = mtime;
+    if (mtime === undefined) return;
+
+    try {
+      const entries: SuppressionEntry[] = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      for (const entry of entries) {
+        this.entries.set(entry.address.toLowerCase(), entry);
+      }
+    } catch (error) {
+      log.error('Unable to read suppression list', { file: this.filePath, error });
+    }
+  }
+
+  private save(): void {
+    const now = Date.now();
+    for (const [address, entry] of this.entries) {
+      if (isExpired(entry, now)) this.entries.delete(address);
+    }
+
+    // Write atomically, a crash never leaves a half written list behind
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify([...this.entries.values()], null, 2));
+    fs.renameSync(tmpPath, this.filePath);
+    this.loadedMtime = fs.statSync(this.filePath).mtimeMs;
+  }
+}
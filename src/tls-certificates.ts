@@ -0,0 +1,68 @@
+import fs from 'fs';
+import tls from 'tls';
+import { TlsConfig } from './config.js';
+import { logger } from './logger.js';
+
+export interface TlsCredentials {
+  key: Buffer;
+  cert: Buffer;
+}
+
+/**
+ * Interval in ms at which certificate files are checked for changes
+ */
+const WATCH_INTERVAL = 10000;
+
+/**
+ * Read the certificate and key files and make sure they form a usable context
+ * @param tlsConfig TLS configuration
+ */
+export function loadTlsCredentials(tlsConfig: TlsConfig): TlsCredentials {
+  const credentials = {
+    key: fs.readFileSync(tlsConfig.key),
+    cert: fs.readFileSync(tlsConfig.cert),
+  };
+
+  // Throws if the files are invalid or the key does not match the certificate
+  tls.createSecureContext(credentials);
+
+  return credentials;
+}
+
+/**
+ * Watch the certificate and key files, e.g. for certbot renewals
+ * @param tlsConfig TLS configuration
+ * @param onReload Called with the new credentials after the files changed
+ * @returns Function to stop watching
+ */
+export function watchTlsCredentials(
+  tlsConfig: TlsConfig,
+  onReload: (credentials: TlsCredentials) => void
+): () => void {
+  const files = [tlsConfig.cert, tlsConfig.key];
+  let reloadTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const listener = (current: fs.Stats, previous: fs.Stats) => {
+    if (current.mtimeMs === previous.mtimeMs) return;
+
+    // Certificate and key are usually replaced together, wait for both writes
+    clearTimeout(reloadTimer);
+    reloadTimer = setTimeout(() => {
+      try {
+        onReload(loadTlsCredentials(tlsConfig));
+      } catch (error) {
+        logger.error('Unable to reload certificates, keeping the current ones', {
+          component: 'tls',
+          error,
+        });
+      }
+    }, 1000);
+  };
+
+  files.forEach(file => fs.watchFile(file, { interval: WATCH_INTERVAL }, listener));
+
+  return () => {
+    clearTimeout(reloadTimer);
+    files.forEach(file => fs.unwatchFile(file, listener));
+  };
+}
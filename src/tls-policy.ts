@@ -0,0 +1,223 @@
+import dns from 'dns';
+import { OutboundTlsConfig, TlsPolicyMode } from './config.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ component: 'tls' });
+
+export interface MtaStsPolicy {
+  /** Policy id from the `_mta-sts` TXT record */
+  id: string;
+  mode: 'enforce' | 'testing' | 'none';
+  mx: string[];
+  /** Seconds the policy may be cached */
+  maxAge: number;
+  fetchedAt: number;
+}
+
+export interface DomainTlsPolicy {
+  mode: TlsPolicyMode;
+  source: 'override' | 'mta-sts' | 'default';
+  /** Allowed MX patterns of an enforced MTA-STS policy */
+  mxPatterns?: string[];
+}
+
+/**
+ * Source of MTA-STS data, replaceable to test against local stand-ins
+ */
+export interface MtaStsFetcher {
+  /** Resolve the TXT records of `_mta-sts.<domain>` */
+  resolveTxt(name: string): Promise<string[][]>;
+  /** Fetch the policy file from `https://mta-sts.<domain>/.well-known/mta-sts.txt` */
+  fetchPolicy(domain: string): Promise<string>;
+}
+
+const MAX_POLICY_SIZE = 64 * 1024;
+
+/**
+ * Read the policy file of a fetch response, reading stops at the size limit so a policy
+ * host cannot make us buffer an unlimited body
+ * @returns Policy file content
+ */
+export async function readPolicyResponse(response: Response): Promise<string> {
+  if (!response.ok) {
+    throw new Error(`MTA-STS policy fetch failed with HTTP ${response.status}`);
+  }
+  // RFC 8461 section 3.3
+  const contentType = response.headers.get('content-type') || '';
+  if (!/^text\/plain\s*(;|$)/i.test(contentType)) {
+    await response.body?.cancel();
+    throw new Error(`MTA-STS policy has content type ${contentType || 'none'}, not text/plain`);
+  }
+
+  if (!response.body) return '';
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > MAX_POLICY_SIZE) {
+      await reader.cancel();
+      throw new Error('MTA-STS policy is too large');
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+export const defaultMtaStsFetcher: MtaStsFetcher = {
+  resolveTxt: name => dns.promises.resolveTxt(name),
+
+  async fetchPolicy(domain: string): Promise<string> {
+    const response = await fetch(`https://mta-sts.${domain}/.well-known/mta-sts.txt`, {
+      redirect: 'error',
+      signal: AbortSignal.timeout(10000),
+    });
+    return readPolicyResponse(response);
+  },
+};
+
+/**
+ * Parse the id of an MTA-STS TXT record
+ * @param records TXT records of `_mta-sts.<domain>`
+ * @returns The policy id or undefined if there is no valid record
+ */
+export function parseMtaStsRecord(records: string[][]): string | undefined {
+  const stsRecords = records.map(chunks => chunks.join('')).filter(r => /^v=STSv1\s*(;|$)/.test(r));
+
+  // Multiple records are treated as no record
+  if (stsRecords.length !== 1) return undefined;
+
+  const match = /(?:^|;)\s*id=([A-Za-z0-9]{1,32})\s*(?:;|$)/.exec(stsRecords[0]);
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Parse an MTA-STS policy file
+ * @param text Policy file content
+ * @param id Policy id from the TXT record
+ */
+export function parseMtaStsPolicy(text: string, id: string): MtaStsPolicy {
+  const fields: Record<string, string[]> = {};
+  for (const line of text.split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const key = line.slice(0, separator).trim();
+    (fields[key] ??= []).push(line.slice(separator + 1).trim());
+  }
+
+  const version = fields.version?.[0];
+  const mode = fields.mode?.[0];
+  const maxAge = Number(fields.max_age?.[0]);
+
+  if (version !== 'STSv1') {
+    throw new Error(`Invalid MTA-STS policy version: ${version}`);
+  }
+  if (mode !== 'enforce' && mode !== 'testing' && mode !== 'none') {
+    throw new Error(`Invalid MTA-STS policy mode: ${mode}`);
+  }
+  if (!Number.isInteger(maxAge) || maxAge < 0) {
+    throw new Error('Invalid MTA-STS policy max_age');
+  }
+  if (mode !== 'none' && !fields.mx?.length) {
+    throw new Error('MTA-STS policy has no mx patterns');
+  }
+
+  return {
+    id,
+    mode,
+    mx: (fields.mx || []).map(pattern => pattern.toLowerCase()),
+    maxAge,
+    fetchedAt: Date.now(),
+  };
+}
+
+/**
+ * Check an MX host against MTA-STS patterns, a leading `*.` matches exactly one label
+ * @param mxHost MX host name
+ * @param patterns Patterns from the policy
+ */
+export function mxMatchesPatterns(mxHost: string, patterns: string[]): boolean {
+  const host = mxHost.toLowerCase().replace(/\.$/, '');
+  return patterns.some(pattern => {
+    if (pattern.startsWith('*.')) {
+      const suffix = pattern.slice(1);
+      const label = host.slice(0, host.length - suffix.length);
+      return host.endsWith(suffix) && label.length > 0 && !label.includes('.');
+    }
+    return host === pattern;
+  });
+}
+
+/**
+ * Determines the TLS policy for delivery to a destination domain from the configured
+ * overrides and the domain's MTA-STS policy
+ */
+export class TlsPolicyResolver {
+  private config: OutboundTlsConfig;
+  private fetcher: MtaStsFetcher;
+  private cache = new Map<string, MtaStsPolicy>();
+
+  constructor(config: OutboundTlsConfig, fetcher: MtaStsFetcher = defaultMtaStsFetcher) {
+    this.config = config;
+    this.fetcher = fetcher;
+  }
+
+  /**
+   * Get the TLS policy for a destination domain
+   * @param domain Recipient domain
+   */
+  public async getPolicy(domain: string): Promise<DomainTlsPolicy> {
+    const override = this.config.policies[domain.toLowerCase()];
+    if (override) {
+      return { mode: override, source: 'override' };
+    }
+
+    if (this.config.mtaSts) {
+      const mtaSts = await this.getMtaStsPolicy(domain.toLowerCase());
+      if (mtaSts?.mode === 'enforce') {
+        return { mode: 'require', source: 'mta-sts', mxPatterns: mtaSts.mx };
+      }
+      if (mtaSts?.mode === 'testing') {
+        return { mode: 'opportunistic', source: 'mta-sts' };
+      }
+    }
+
+    return { mode: this.config.defaultPolicy, source: 'default' };
+  }
+
+  /**
+   * Get the MTA-STS policy of a domain, from the cache while its id is unchanged
+   * @param domain Recipient domain
+   */
+  public async getMtaStsPolicy(domain: string): Promise<MtaStsPolicy | undefined> {
+    const cached = this.cache.get(domain);
+    const cacheValid = cached && Date.now() < cached.fetchedAt + cached.maxAge * 1000;
+
+    let id: string | undefined;
+    try {
+      id = parseMtaStsRecord(await this.fetcher.resolveTxt(`_mta-sts.${domain}`));
+    } catch (error) {
+      // DNS failures keep using a cached policy until it expires
+      return cacheValid ? cached : undefined;
+    }
+
+    if (!id) {
+      return cacheValid ? cached : undefined;
+    }
+    if (cached && cacheValid && cached.id === id) {
+      return cached;
+    }
+
+    try {
+      const policy = parseMtaStsPolicy(await this.fetcher.fetchPolicy(domain), id);
+      this.cache.set(domain, policy);
+      log.info('MTA-STS policy fetched', { domain, mode: policy.mode, id });
+      return policy;
+    } catch (error) {
+      log.warn('Unable to fetch MTA-STS policy', { domain, error });
+      return cacheValid ? cached : undefined;
+    }
+  }
+}
@@ -0,0 +1,225 @@
+import crypto from 'crypto';
+import { SmtpUser, TinkSESConfig } from './config.js';
+
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const SCRYPT_KEY_LENGTH = 64;
+
+/**
+ * Upper bounds of the parameters of stored hashes, so a hash cannot make an authentication
+ * take seconds or gigabytes of memory
+ */
+const MAX_SCRYPT_N = 2 ** 16;
+const MAX_SCRYPT_R = 16;
+const MAX_SCRYPT_P = 4;
+const MAX_SCRYPT_KEY_LENGTH = 128;
+
+/**
+ * Hash unknown users are checked against, so they take as long as known users
+ */
+const DUMMY_PASSWORD_HASH = [
+  'scrypt',
+  SCRYPT_N,
+  SCRYPT_R,
+  SCRYPT_P,
+  crypto.randomBytes(16).toString('base64'),
+  crypto.randomBytes(SCRYPT_KEY_LENGTH).toString('base64'),
+].join('$');
+
+/**
+ * Hash a password with scrypt and a random salt
+ * @param password Plaintext password
+ */
+export function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(16);
+  const hash = crypto.scryptSync(password, salt, SCRYPT_KEY_LENGTH, {
+    N: SCRYPT_N,
+    r: SCRYPT_R,
+    p: SCRYPT_P,
+  });
+  return [
+    'scrypt',
+    SCRYPT_N,
+    SCRYPT_R,
+    SCRYPT_P,
+    salt.toString('base64'),
+    hash.toString('base64'),
+  ].join('$');
+}
+
+/**
+ * Run scrypt in the thread pool, the event loop keeps serving other sessions
+ */
+function scrypt(
+  password: string,
+  salt: Buffer,
+  keyLength: number,
+  options: crypto.ScryptOptions
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, keyLength, options, (error, key) =>
+      error ? reject(error) : resolve(key)
+    );
+  });
+}
+
+/**
+ * Check a password against a hash created by hashPassword
+ * @param password Plaintext password
+ * @param passwordHash Stored hash
+ * @returns Whether the password matches, false for hashes with parameters out of bounds
+ */
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [scheme, n, r, p, salt, hash] = passwordHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const N = Number(n);
+  const expected = Buffer.from(hash, 'base64');
+  if (
+    !Number.isInteger(N) ||
+    N > MAX_SCRYPT_N ||
+    !(Number(r) <= MAX_SCRYPT_R) ||
+    !(Number(p) <= MAX_SCRYPT_P) ||
+    expected.length > MAX_SCRYPT_KEY_LENGTH
+  ) {
+    return false;
+  }
+
+  try {
+    const actual = await scrypt(password, Buffer.from(salt, 'base64'), expected.length, {
+      N,
+      r: Number(r),
+      p: Number(p),
+      maxmem: 256 * MAX_SCRYPT_N * MAX_SCRYPT_R,
+    });
+    return crypto.timingSafeEqual(actual, expected);
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Compare two strings without leaking their content through timing
+ */
+function safeEqual(a: string, b: string): boolean {
+  const hashA = crypto.createHash('sha256').update(a).digest();
+  const hashB = crypto.createHash('sha256').update(b).digest();
+  return crypto.timingSafeEqual(hashA, hashB);
+}
+
+/**
+ * Find a configured user by name
+ * @param config TinkSES configuration
+ * @param username Username
+ */
+export function findUser(config: TinkSESConfig, username: string): SmtpUser | undefined {
+  return (config.users || []).find(user => user.username === username);
+}
+
+/**
+ * Authenticate an SMTP user. Falls back to the plaintext `username` and `password` of
+ * older configurations.
+ * @param config TinkSES configuration
+ * @param username Username
+ * @param password Plaintext password
+ * @returns Whether the credentials are valid
+ */
+export async function authenticateUser(
+  config: TinkSESConfig,
+  username: string,
+  password: string
+): Promise<boolean> {
+  const user = findUser(config, username);
+  if (user) {
+    return verifyPassword(password, user.passwordHash);
+  }
+
+  // Hash anyway, the response time must not tell which usernames exist
+  await verifyPassword(password, DUMMY_PASSWORD_HASH);
+  if (config.username && config.password && config.username === username) {
+    return safeEqual(password, config.password);
+  }
+
+  return false;
+}
+
+/**
+ * Check a sender address against a list of allowed addresses and domains
+ * @param allowedSenders Allowed sender addresses or domains, no restriction if empty
+ * @param address Envelope sender address
+ */
+export function matchesAllowedSenders(
+  allowedSenders: string[] | undefined,
+  address: string
+): boolean {
+  if (!allowedSenders || allowedSenders.length === 0) return true;
+
+  const sender = address.toLowerCase();
+  const domain = sender.split('@')[1];
+  return allowedSenders.some(allowed => {
+    const entry = allowed.toLowerCase().replace(/^@/, '');
+    return entry.includes('@') ? entry === sender : entry === domain;
+  });
+}
+
+/**
+ * Check whether a user may send with a sender address
+ * @param config TinkSES configuration
+ * @param username Authenticated username
+ * @param address Envelope sender address
+ */
+export function isSenderAllowed(config: TinkSESConfig, username: string, address: string): boolean {
+  return matchesAllowedSenders(findUser(config, username)?.allowedSenders, address);
+}
+
+/**
+ * Add a user to the configuration
+ * @param config TinkSES configuration
+ * @param username Username
+ * @param password Plaintext password, only its hash is stored
+ * @param allowedSenders Sender addresses or domains the user may send from
+ */
+export function addUser(
+  config: TinkSESConfig,
+  username: string,
+  password: string,
+  allowedSenders: string[] = []
+): SmtpUser {
+  if (findUser(config, username)) {
+    throw new Error(`User '${username}' already exists`);
+  }
+
+  const user: SmtpUser = { username, passwordHash: hashPassword(password) };
+  if (allowedSenders.length > 0) {
+    user.allowedSenders = allowedSenders;
+  }
+  config.users = [...(config.users || []), user];
+  return user;
+}
+
+/**
+ * Remove a user from the configuration
+ * @param config TinkSES configuration
+ * @param username Username
+ */
+export function removeUser(config: TinkSESConfig, username: string): void {
+  if (!findUser(config, username)) {
+    throw new Error(`User '${username}' does not exist`);
+  }
+  config.users = (config.users || []).filter(user => user.username !== username);
+}
+
+/**
+ * Replace the password of a user
+ * @param config TinkSES configuration
+ * @param username Username
+ * @param password New plaintext password
+ */
+export function setUserPassword(config: TinkSESConfig, username: string, password: string): void {
+  const user = findUser(config, username);
+  if (!user) {
+    throw new Error(`User '${username}' does not exist`);
+  }
+  user.passwordHash = hashPassword(password);
+}
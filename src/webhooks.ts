@@ -0,0 +1,211 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { WebhookConfig, WebhookEndpoint, WebhookEventType } from './config.js';
+import { QueueEntry, QueuedRecipient } from './queue.js';
+import { TlsInfo } from './delivery.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ component: 'webhook' });
+
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  /** ISO 8601 time the event occurred */
+  timestamp: string;
+  queueId: string;
+  messageId: string;
+  from: string;
+  recipient: string;
+  attempts: number;
+  response?: string;
+  responseCode?: number;
+  enhancedStatus?: string;
+  remoteMta?: string;
+  tls?: TlsInfo;
+  /** ISO 8601 time of the next delivery attempt of a deferred recipient */
+  nextAttempt?: string;
+}
+
+/**
+ * Event type reported for the status of a recipient
+ */
+const eventTypes: Record<QueuedRecipient['status'], WebhookEventType> = {
+  queued: 'accepted',
+  delivered: 'delivered',
+  deferred: 'deferred',
+  failed: 'bounced',
+};
+
+/**
+ * Create the event describing the current status of a recipient
+ * @param entry Queue entry of the message
+ * @param recipient Recipient after its latest status change
+ */
+export function createRecipientEvent(entry: QueueEntry, recipient: QueuedRecipient): WebhookEvent {
+  const type = eventTypes[recipient.status];
+  return {
+    id: crypto.randomUUID(),
+    type,
+    timestamp: new Date().toISOString(),
+    queueId: entry.id,
+    messageId: entry.messageId,
+    from: entry.from,
+    recipient: recipient.address,
+    attempts: recipient.attempts,
+    response: recipient.status === 'delivered' ? undefined : recipient.lastError,
+    responseCode: recipient.responseCode,
+    enhancedStatus: recipient.enhancedStatus,
+    remoteMta: recipient.remoteMta,
+    tls: recipient.tls,
+    nextAttempt: type === 'deferred' ? new Date(recipient.nextAttempt).toISOString() : undefined,
+  };
+}
+
+/**
+ * Sign a webhook payload. Receivers recompute the signature from the
+ * `X-TinkSES-Timestamp` header and the raw body to verify an event.
+ * @param secret Endpoint secret
+ * @param timestamp Unix time in seconds
+ * @param body Raw JSON body
+ * @returns Hex encoded HMAC-SHA256 signature
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+interface PendingDelivery {
+  endpoint: WebhookEndpoint;
+  event: WebhookEvent;
+  attempts: number;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Posts delivery events to the configured webhook endpoints. Failed posts are retried
+ * and finally appended to a log file, so no event is lost silently.
+ */
+export class WebhookDispatcher {
+  private config: WebhookConfig;
+  private pending = new Set<PendingDelivery>();
+
+  constructor(config: WebhookConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Send an event to every endpoint subscribed to its type
+   * @param event Delivery event
+   */
+  public dispatch(event: WebhookEvent): void {
+    for (const endpoint of this.config.endpoints) {
+      if (endpoint.events && !endpoint.events.includes(event.type)) continue;
+
+      const delivery: PendingDelivery = { endpoint, event, attempts: 0 };
+      this.pending.add(delivery);
+      this.attempt(delivery);
+    }
+  }
+
+  /**
+   * Stop retrying, events that were not delivered yet are written to the log
+   */
+  public stop(): void {
+    for (const delivery of this.pending) {
+      clearTimeout(delivery.timer);
+      this.logFailure(delivery, 'TinkSES stopped before the event was delivered');
+    }
+    this.pending.clear();
+  }
+
+  private async attempt(delivery: PendingDelivery): Promise<void> {
+    const { endpoint, event } = delivery;
+    delivery.attempts++;
+    delivery.timer = undefined;
+
+    try {
+      await this.post(endpoint, event);
+      this.pending.delete(delivery);
+      return;
+    } catch (error) {
+      // fetch reports network errors as "fetch failed" with the reason as cause
+      const cause = (error as { cause?: Error }).cause;
+      const message = cause?.message || (error as Error).message;
+      // The dispatcher was stopped while the request was running
+      if (!this.pending.has(delivery)) return;
+
+      const delays = this.config.retryDelays;
+      if (delivery.attempts > delays.length) {
+        log.error('Giving up on event', {
+          event: event.type,
+          eventId: event.id,
+          url: endpoint.url,
+          error: message,
+        });
+        this.pending.delete(delivery);
+        this.logFailure(delivery, message);
+        return;
+      }
+
+      const delay = delays[delivery.attempts - 1];
+      log.warn('Unable to send event, retrying', {
+        event: event.type,
+        eventId: event.id,
+        url: endpoint.url,
+        retryIn: delay,
+        error: message,
+      });
+      delivery.timer = setTimeout(() => this.attempt(delivery), delay * 1000);
+    }
+  }
+
+  private async post(endpoint: WebhookEndpoint, event: WebhookEvent): Promise<void> {
+    const body = JSON.stringify(event);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    const response = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'TinkSES',
+        'X-TinkSES-Event': event.type,
+        'X-TinkSES-Event-Id': event.id,
+        'X-TinkSES-Timestamp': String(timestamp),
+        'X-TinkSES-Signature': `sha256=${signWebhookPayload(endpoint.secret, timestamp, body)}`,
+      },
+      body,
+      redirect: 'error',
+      signal: AbortSignal.timeout(this.config.timeout * 1000),
+    });
+
+    // Drain the body so the connection can be reused
+    await response.arrayBuffer().catch(() => undefined);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+  }
+
+  /**
+   * Append an undelivered event to the failed events log
+   */
+  private logFailure(delivery: PendingDelivery, error: string): void {
+    const record = {
+      url: delivery.endpoint.url,
+      attempts: delivery.attempts,
+      error,
+      failedAt: new Date().toISOString(),
+      event: delivery.event,
+    };
+
+    try {
+      const logPath = path.resolve(this.config.failedLog);
+      fs.mkdirSync(path.dirname(logPath), { recursive: true });
+      fs.appendFileSync(logPath, JSON.stringify(record) + '\n');
+    } catch (logError) {
+      log.error('Unable to write event to the failed events log', {
+        eventId: delivery.event.id,
+        error: logError,
+      });
+    }
+  }
+}
@@ -0,0 +1,237 @@
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { afterEach, describe, it, mock } from 'node:test';
+import { dkimVerify } from 'mailauth/lib/dkim/verify.js';
+import { DkimSigningKey, signDkim, verifyDkimSignature } from '../src/dkim.js';
+import { generateDkimRecord, getDkimPublicKeyData } from '../src/dns-creation.js';
+import { createDkimSigner } from '../src/smtp-server.js';
+
+const rsaKeys = crypto.generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+});
+const ed25519Keys = crypto.generateKeyPairSync('ed25519', {
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+});
+
+const signingKeys: DkimSigningKey[] = [
+  { domain: 'example.com', selector: 'rsa', privateKey: rsaKeys.privateKey },
+  { domain: 'example.com', selector: 'ed', privateKey: ed25519Keys.privateKey },
+];
+
+/**
+ * DNS of the signing domain for the independent verifier
+ */
+async function resolver(name: string, type: string): Promise<string[][]> {
+  const records: Record<string, string> = {
+    'rsa._domainkey.example.com': generateDkimRecord(rsaKeys.publicKey),
+    'ed._domainkey.example.com': generateDkimRecord(ed25519Keys.publicKey),
+  };
+  if (type !== 'TXT' || !records[name]) {
+    throw Object.assign(new Error(`${name} not found`), { code: 'ENOTFOUND' });
+  }
+  return [[records[name]]];
+}
+
+async function independentResults(message: Buffer): Promise<Record<string, string>> {
+  const { results } = await dkimVerify(message, { resolver });
+  return Object.fromEntries(results.map(result => [result.selector, result.status.result]));
+}
+
+/**
+ * Message exercising the relaxed canonicalization: folded and repeated headers, runs of
+ * whitespace, trailing whitespace and empty lines at the end of the body
+ */
+const message = Buffer.from(
+  [
+    'Received: from client by example.com',
+    'From: "Sender  Name" <app@example.com>',
+    'To: user@example.net,\t',
+    '  other@example.net',
+    'Subject:   A  folded',
+    '\tsubject line   ',
+    'subject: lower case duplicate',
+    'Date: Mon, 19 Oct 2026 12:00:00 +0000',
+    'Message-ID: <1@example.com>',
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    'Hello   world, ',
+    '\tindented  line\t',
+    'Grüße',
+    '',
+    '',
+    '',
+  ].join('\r\n'),
+  'utf8'
+);
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('signDkim', () => {
+  it('creates RSA and Ed25519 signatures an independent verifier accepts', async () => {
+    const signed = signDkim(message, signingKeys);
+    assert.deepEqual(await independentResults(signed), { rsa: 'pass', ed: 'pass' });
+  });
+
+  it('creates signatures that survive the relaxed canonicalization of relays', async () => {
+    const signed = signDkim(message, signingKeys)
+      .toString('utf8')
+      // Relays may refold headers, change whitespace and strip trailing empty lines
+      .replace('Subject:   A  folded\r\n\tsubject line   ', 'Subject: A folded subject line')
+      .replace('Hello   world, ', 'Hello world,')
+      .replace(/(\r\n)+$/, '\r\n');
+    assert.deepEqual(await independentResults(Buffer.from(signed, 'utf8')), {
+      rsa: 'pass',
+      ed: 'pass',
+    });
+  });
+
+  it('creates signatures that fail when the message is changed', async () => {
+    const signed = signDkim(message, signingKeys).toString('utf8');
+    const body = Buffer.from(signed.replace('Hello', 'Hallo'), 'utf8');
+    const header = Buffer.from(signed.replace('<1@example.com>', '<2@example.com>'), 'utf8');
+    assert.deepEqual(await independentResults(body), { rsa: 'neutral', ed: 'neutral' });
+    assert.deepEqual(await independentResults(header), { rsa: 'fail', ed: 'fail' });
+  });
+
+  it('returns messages unchanged without keys', () => {
+    assert.equal(signDkim(message, []), message);
+  });
+});
+
+describe('verifyDkimSignature', () => {
+  it('verifies its own signatures and rejects changed messages', () => {
+    const rsaSigned = signDkim(message, [signingKeys[0]]);
+    const rsaData = getDkimPublicKeyData(rsaKeys.publicKey);
+    assert.equal(verifyDkimSignature(rsaSigned, rsaData, 'rsa'), undefined);
+
+    const edSigned = signDkim(message, [signingKeys[1]]);
+    const edData = getDkimPublicKeyData(ed25519Keys.publicKey);
+    assert.equal(verifyDkimSignature(edSigned, edData, 'ed25519'), undefined);
+
+    assert.equal(
+      verifyDkimSignature(
+        Buffer.from(edSigned.toString().replace('Hello', 'Hallo')),
+        edData,
+        'ed25519'
+      ),
+      'The body hash does not match'
+    );
+    assert.equal(
+      verifyDkimSignature(
+        Buffer.from(edSigned.toString().replace('<1@', '<2@')),
+        edData,
+        'ed25519'
+      ),
+      'The signature does not verify with the public key'
+    );
+    assert.match(verifyDkimSignature(rsaSigned, edData, 'ed25519') || '', /algorithm/);
+  });
+});
+
+describe('createDkimSigner', () => {
+  it('returns the nodemailer DKIM options of the primary key', () => {
+    const dkim = {
+      privateKey: rsaKeys.privateKey,
+      publicKey: rsaKeys.publicKey,
+      selector: 'rsa',
+      secondary: { privateKey: ed25519Keys.privateKey, publicKey: '', selector: 'ed' },
+    };
+    assert.deepEqual(createDkimSigner('example.com', dkim), {
+      domainName: 'example.com',
+      keySelector: 'rsa',
+      privateKey: rsaKeys.privateKey,
+    });
+    assert.equal(createDkimSigner('example.com', { ...dkim, privateKey: '' }), undefined);
+  });
+});
+
+/**
+ * The signed example of RFC 8463 appendix A
+ */
+describe('RFC 8463 test vector', () => {
+  const seed = 'nWGxne/9WmC6hEr0kuwsxERJxWl7MmkZcDusAxyuf2A=';
+  const ed25519PublicKey = '11qYAYKxCrfVS/7TyWQHOg7hcvPapiMlrwIaaPcHURo=';
+  const rsaPublicKey =
+    'MIGfMA0GCSqGSIb3DQEBAQUAA4GNADCBiQKBgQDkHlOQoBTzWRiGs5V6NpP3idY6Wk08a5qhdR6wy5bdOKb2jLQ' +
+    'iY/J16JYi0Qvx/byYzCNb3W91y3FutACDfzwQ/BC/e/8uBsCR+yz1Lxj+PL6lHvqMKrM3rG4hstT5QjvHO9Pz' +
+    'oxZyVYLzBfO2EeC3Ip3G+2kryOTIKT+l/K4w3QIDAQAB';
+  const ed25519Signature = [
+    'DKIM-Signature: v=1; a=ed25519-sha256; c=relaxed/relaxed;',
+    ' d=football.example.com; i=@football.example.com;',
+    ' q=dns/txt; s=brisbane; t=1528637909; h=from : to :',
+    ' subject : date : message-id : from : subject : date;',
+    ' bh=2jUSOH9NhtVGCQWNr9BrIAPreKQjO6Sn7XIkfJVOzv8=;',
+    ' b=/gCrinpcQOoIfuHNQIbq4pgh9kyIK3AQUdt9OdqQehSwhEIug4D11BusFa3bT3FY5OsU7ZbnKELq+eXdp1Q1Dw==',
+  ];
+  const rsaSignature = [
+    'DKIM-Signature: v=1; a=rsa-sha256; c=relaxed/relaxed;',
+    ' d=football.example.com; i=@football.example.com;',
+    ' q=dns/txt; s=test; t=1528637909; h=from : to : subject :',
+    ' date : message-id : from : subject : date;',
+    ' bh=2jUSOH9NhtVGCQWNr9BrIAPreKQjO6Sn7XIkfJVOzv8=;',
+    ' b=F45dVWDfMbQDGHJFlXUNB2HKfbCeLRyhDXgFpEL8GwpsRe0IeIixNTe3',
+    ' DhCVlUrSjV4BwcVcOF6+FF3Zo9Rpo1tFOeS9mPYQTnGdaSGsgeefOsk2Jz',
+    ' dA+L10TeYt9BgDfQNZtKdN1WO//KgIqXP7OdEFE4LjFYNcUxZQ4FADY+8=',
+  ];
+  const unsigned = [
+    'From: Joe SixPack <joe@football.example.com>',
+    'To: Suzie Q <suzie@shopping.example.net>',
+    'Subject: Is dinner ready?',
+    'Date: Fri, 11 Jul 2003 21:00:37 -0700 (PDT)',
+    'Message-ID: <20030712040037.46341.5F8J@football.example.com>',
+    '',
+    'Hi.',
+    '',
+    'We lost the game.  Are you hungry yet?',
+    '',
+    'Joe.',
+    '',
+  ];
+  const build = (lines: string[]) => Buffer.from(lines.join('\r\n'));
+
+  it('verifies the Ed25519 and RSA signatures of the example', () => {
+    assert.equal(
+      verifyDkimSignature(build([...ed25519Signature, ...unsigned]), ed25519PublicKey, 'ed25519'),
+      undefined
+    );
+    assert.equal(
+      verifyDkimSignature(build([...rsaSignature, ...unsigned]), rsaPublicKey, 'rsa'),
+      undefined
+    );
+  });
+
+  it('signs the example with the body hash of the RFC and the example key', async () => {
+    mock.method(Date, 'now', () => 1528637909000);
+    const privateKey = crypto
+      .createPrivateKey({
+        // PKCS #8 prefix of an Ed25519 private key followed by the seed (RFC 8410)
+        key: Buffer.concat([
+          Buffer.from('302e020100300506032b657004220420', 'hex'),
+          Buffer.from(seed, 'base64'),
+        ]),
+        format: 'der',
+        type: 'pkcs8',
+      })
+      .export({ type: 'pkcs8', format: 'pem' })
+      .toString();
+    const signed = signDkim(build(unsigned), [
+      { domain: 'football.example.com', selector: 'brisbane', privateKey },
+    ]);
+
+    const header = signed.toString().split(/\r\n(?![ \t])/)[0];
+    assert.match(header, /t=1528637909;/);
+    assert.match(header, /bh=2jUSOH9NhtVGCQWNr9BrIAPreKQjO6Sn7XIkfJVOzv8=;/);
+    assert.equal(verifyDkimSignature(signed, ed25519PublicKey, 'ed25519'), undefined);
+
+    const { results } = await dkimVerify(signed, {
+      resolver: async () => [[`v=DKIM1; k=ed25519; p=${ed25519PublicKey}`]],
+    });
+    assert.equal(results[0].status.result, 'pass');
+  });
+});
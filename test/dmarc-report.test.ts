@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import zlib from 'node:zlib';
+import { describe, it } from 'node:test';
+import { parseReportFile } from '../src/dmarc-report.js';
+
+const report = `<?xml version="1.0" encoding="UTF-8" ?>
+<feedback>
+  <report_metadata>
+    <org_name>receiver.test</org_name>
+    <report_id>1</report_id>
+    <date_range><begin>1700000000</begin><end>1700086400</end></date_range>
+  </report_metadata>
+  <policy_published><domain>example.com</domain></policy_published>
+  <record>
+    <row>
+      <source_ip>192.0.2.1</source_ip>
+      <count>3</count>
+      <policy_evaluated><disposition>none</disposition><dkim>pass</dkim><spf>fail</spf></policy_evaluated>
+    </row>
+    <identifiers><header_from>example.com</header_from></identifiers>
+  </record>
+</feedback>
+`;
+
+describe('parseReportFile', () => {
+  it('parses gzip compressed reports', async () => {
+    const [parsed] = await parseReportFile(zlib.gzipSync(report));
+    assert.equal(parsed.reporter, 'receiver.test');
+    assert.equal(parsed.domain, 'example.com');
+    assert.deepEqual(parsed.records, [
+      {
+        sourceIp: '192.0.2.1',
+        count: 3,
+        disposition: 'none',
+        dkim: 'pass',
+        spf: 'fail',
+        headerFrom: 'example.com',
+      },
+    ]);
+  });
+
+  it('refuses archives that inflate to more than 50 MB', async () => {
+    const bomb = zlib.gzipSync(Buffer.alloc(51 * 1024 * 1024, ' '));
+    await assert.rejects(parseReportFile(bomb), RangeError);
+  });
+});
@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { hashApiKey } from '../src/api-keys.js';
+import { defaultLogConfig, TinkSESConfig } from '../src/config.js';
+import { HttpApiServer } from '../src/http-api.js';
+import { configureLogger } from '../src/logger.js';
+import { getHeader } from '../src/message.js';
+import { MailPipeline } from '../src/pipeline.js';
+
+const PORT = 28025;
+
+describe('HTTP API in sink mode', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tinkses-http-'));
+  const sinkDir = path.join(dir, 'sink');
+  const config: TinkSESConfig = {
+    port: 2525,
+    host: 'localhost',
+    domain: 'example.com',
+    ip: [],
+    dkim: { privateKey: '', publicKey: '', selector: 'default' },
+    apiKeys: [{ name: 'test', keyHash: hashApiKey('secret') }],
+    http: { enabled: true, port: PORT, host: '127.0.0.1' },
+    delivery: { mode: 'sink', sinkDir },
+    queue: { dir: path.join(dir, 'queue') },
+    suppression: { file: path.join(dir, 'suppressions.json') },
+    bounce: { enabled: false },
+  };
+  const pipeline = new MailPipeline(config);
+  const server = new HttpApiServer(config, pipeline);
+
+  before(() => {
+    configureLogger({ ...defaultLogConfig, level: 'error' });
+    pipeline.start();
+    server.start();
+  });
+
+  after(async () => {
+    await server.stop();
+    await pipeline.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function send(body: unknown): Promise<Response> {
+    return fetch(`http://127.0.0.1:${PORT}/v1/messages`, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer secret', 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  }
+
+  async function waitForSink(): Promise<Buffer> {
+    for (let attempt = 0; attempt < 50; attempt++) {
+      const files = fs.existsSync(sinkDir) ? fs.readdirSync(sinkDir) : [];
+      if (files.length > 0) return fs.readFileSync(path.join(sinkDir, files[0]));
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    throw new Error('No message was delivered to the sink');
+  }
+
+  it('delivers raw messages to their Bcc recipients without the Bcc header', async () => {
+    const raw = [
+      'From: app@example.com',
+      'To: user@example.net',
+      'Bcc: secret@example.net',
+      'Subject: Raw',
+      '',
+      'Hello',
+      '',
+    ].join('\r\n');
+    const response = await send({ raw: Buffer.from(raw).toString('base64') });
+    assert.equal(response.status, 202);
+
+    const delivered = await waitForSink();
+    assert.equal(getHeader(delivered, 'bcc'), undefined);
+    assert.equal(getHeader(delivered, 'to'), 'user@example.net');
+    assert.match(getHeader(delivered, 'x-envelope-to') || '', /secret@example\.net/);
+  });
+});
@@ -0,0 +1,13 @@
+// mailauth 4 ships without type declarations, only the DKIM verifier is used by the tests
+declare module 'mailauth/lib/dkim/verify.js' {
+  export interface DkimVerifyResult {
+    signingDomain?: string;
+    selector?: string;
+    status: { result: string; comment?: string };
+  }
+
+  export function dkimVerify(
+    input: Buffer,
+    options?: { resolver?: (name: string, type: string) => Promise<string[][]> }
+  ): Promise<{ results: DkimVerifyResult[] }>;
+}
@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { getHeader, removeHeader } from '../src/message.js';
+
+describe('removeHeader', () => {
+  it('removes every occurrence with its folded lines', () => {
+    const message = Buffer.from(
+      'From: a@example.com\r\nBcc: b@example.net,\r\n c@example.net\r\nTo: d@example.net\r\n' +
+        'bcc : e@example.net\r\nSubject: Hi\r\n\r\nBcc: in the body\r\n'
+    );
+    assert.equal(
+      removeHeader(message, 'bcc').toString(),
+      'From: a@example.com\r\nTo: d@example.net\r\nSubject: Hi\r\n\r\nBcc: in the body\r\n'
+    );
+  });
+
+  it('keeps the empty line after removing the last header', () => {
+    const message = Buffer.from('To: d@example.net\nBcc: b@example.net\n\nbody\n');
+    const result = removeHeader(message, 'Bcc');
+    assert.equal(result.toString(), 'To: d@example.net\n\nbody\n');
+    assert.equal(getHeader(result, 'to'), 'd@example.net');
+  });
+
+  it('returns messages without the header unchanged', () => {
+    const message = Buffer.from('To: d@example.net\r\nX-Bcc-Count: 2\r\n\r\nbody');
+    assert.equal(removeHeader(message, 'bcc'), message);
+  });
+
+  it('keeps 8-bit header values byte for byte', () => {
+    const message = Buffer.concat([
+      Buffer.from('Subject: '),
+      Buffer.from('Grüße', 'utf8'),
+      Buffer.from('\r\nBcc: b@example.net\r\n\r\nbody'),
+    ]);
+    assert.equal(removeHeader(message, 'bcc').toString('utf8'), 'Subject: Grüße\r\n\r\nbody');
+  });
+});
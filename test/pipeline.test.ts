@@ -0,0 +1,179 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { SMTPServer } from 'smtp-server';
+import { defaultLogConfig, TinkSESConfig } from '../src/config.js';
+import { configureLogger } from '../src/logger.js';
+import { InvalidRecipientError, MailPipeline } from '../src/pipeline.js';
+
+const SMARTHOST_PORT = 28026;
+const WEBHOOK_PORT = 28027;
+const SMARTHOST_SUPPRESSION_PORT = 28029;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('MailPipeline in redirect mode', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tinkses-pipeline-'));
+  const recipients: string[] = [];
+  const events: string[] = [];
+
+  // Relay of the redirect mode that rejects the catch-all address
+  const smarthost = new SMTPServer({
+    authOptional: true,
+    disabledCommands: ['STARTTLS'],
+    onRcptTo(address, session, callback) {
+      recipients.push(address.address);
+      callback(Object.assign(new Error('5.1.1 Mailbox unavailable'), { responseCode: 550 }));
+    },
+  });
+  const webhookReceiver = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      events.push(JSON.parse(body).type);
+      res.end();
+    });
+  });
+
+  const config: TinkSESConfig = {
+    port: 2525,
+    host: 'localhost',
+    domain: 'example.com',
+    ip: [],
+    dkim: { privateKey: '', publicKey: '', selector: 'default' },
+    delivery: { mode: 'redirect', redirectTo: 'catch-all@example.org' },
+    smarthosts: [{ host: '127.0.0.1', port: SMARTHOST_PORT, security: 'none' }],
+    queue: { dir: path.join(dir, 'queue') },
+    suppression: { file: path.join(dir, 'suppressions.json') },
+    webhooks: {
+      endpoints: [{ url: `http://127.0.0.1:${WEBHOOK_PORT}/`, secret: 'secret' }],
+      failedLog: path.join(dir, 'webhooks-failed.jsonl'),
+    },
+  };
+  const pipeline = new MailPipeline(config);
+
+  before(async () => {
+    configureLogger({ ...defaultLogConfig, level: 'error' });
+    await new Promise<void>(resolve => smarthost.listen(SMARTHOST_PORT, '127.0.0.1', resolve));
+    await new Promise<void>(resolve => webhookReceiver.listen(WEBHOOK_PORT, '127.0.0.1', resolve));
+    pipeline.start();
+  });
+
+  after(async () => {
+    await pipeline.stop();
+    await new Promise<void>(resolve => smarthost.close(() => resolve()));
+    await new Promise<void>(resolve => webhookReceiver.close(() => resolve()));
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('does not suppress or bounce recipients when the catch-all address fails', async () => {
+    await pipeline.submit(
+      'app@example.com',
+      ['user@example.net'],
+      Buffer.from('From: app@example.com\r\nTo: user@example.net\r\nSubject: Hi\r\n\r\nHello\r\n'),
+      []
+    );
+    for (let attempt = 0; attempt < 50 && recipients.length === 0; attempt++) await sleep(50);
+    await sleep(300);
+
+    assert.deepEqual(recipients, ['catch-all@example.org']);
+    assert.equal(pipeline.findSuppression('user@example.net'), undefined);
+    assert.deepEqual(events, ['accepted']);
+  });
+});
+
+describe('MailPipeline suppression of failed recipients', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tinkses-pipeline-'));
+  const delivered: string[] = [];
+
+  // Relay that blocks one sender, like a receiver listing our address, and one mailbox
+  const smarthost = new SMTPServer({
+    authOptional: true,
+    disabledCommands: ['STARTTLS'],
+    onMailFrom(address, session, callback) {
+      if (address.address !== 'blocked@example.com') return callback();
+      callback(Object.assign(new Error('5.7.1 Service unavailable'), { responseCode: 554 }));
+    },
+    onRcptTo(address, session, callback) {
+      if (address.address !== 'unknown@example.net') return callback();
+      callback(Object.assign(new Error('5.1.1 Mailbox unavailable'), { responseCode: 550 }));
+    },
+    onData(stream, session, callback) {
+      stream.resume();
+      stream.on('end', () => {
+        delivered.push(...session.envelope.rcptTo.map(rcpt => rcpt.address));
+        callback();
+      });
+    },
+  });
+
+  const config: TinkSESConfig = {
+    port: 2525,
+    host: 'localhost',
+    domain: 'example.com',
+    ip: [],
+    dkim: { privateKey: '', publicKey: '', selector: 'default' },
+    smarthosts: [{ host: '127.0.0.1', port: SMARTHOST_SUPPRESSION_PORT, security: 'none' }],
+    queue: { dir: path.join(dir, 'queue') },
+    suppression: { file: path.join(dir, 'suppressions.json') },
+    bounce: { enabled: false },
+  };
+  const pipeline = new MailPipeline(config);
+  const message = Buffer.from('From: app@example.com\r\nSubject: Hi\r\n\r\nHello\r\n');
+
+  before(async () => {
+    configureLogger({ ...defaultLogConfig, level: 'error' });
+    await new Promise<void>(resolve =>
+      smarthost.listen(SMARTHOST_SUPPRESSION_PORT, '127.0.0.1', resolve)
+    );
+    pipeline.start();
+  });
+
+  after(async () => {
+    await pipeline.stop();
+    await new Promise<void>(resolve => smarthost.close(() => resolve()));
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('suppresses recipients rejected at RCPT TO', async () => {
+    await pipeline.submit(
+      'app@example.com',
+      ['unknown@example.net', 'user@example.net'],
+      message,
+      []
+    );
+    for (let attempt = 0; attempt < 50 && delivered.length === 0; attempt++) await sleep(50);
+    await sleep(100);
+
+    assert.deepEqual(delivered, ['user@example.net']);
+    assert.equal(pipeline.findSuppression('unknown@example.net')?.reason, 'bounce');
+  });
+
+  it('does not suppress recipients of transactions rejected as a whole', async () => {
+    const { entry } = await pipeline.submit(
+      'blocked@example.com',
+      ['other@example.net'],
+      message,
+      []
+    );
+    assert.ok(entry);
+    for (let attempt = 0; attempt < 50 && entry.recipients[0].status !== 'failed'; attempt++) {
+      await sleep(50);
+    }
+    await sleep(100);
+
+    assert.equal(entry.recipients[0].status, 'failed');
+    assert.equal(entry.recipients[0].responseCode, 554);
+    assert.equal(pipeline.findSuppression('other@example.net'), undefined);
+  });
+
+  it('rejects recipients without a domain instead of queueing them', async () => {
+    await assert.rejects(
+      pipeline.submit('app@example.com', ['user@example.net', 'user'], message, []),
+      InvalidRecipientError
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { defaultLogConfig, defaultQueueConfig, defaultRateLimitConfig } from '../src/config.js';
+import { RecipientResult } from '../src/delivery.js';
+import { configureLogger } from '../src/logger.js';
+import { DeliverFunction, OutboundQueue } from '../src/queue.js';
+import { DeliveryThrottle } from '../src/rate-limit.js';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('OutboundQueue', () => {
+  let dir: string;
+  let queue: OutboundQueue | undefined;
+
+  beforeEach(() => {
+    configureLogger({ ...defaultLogConfig, level: 'error' });
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tinkses-queue-'));
+  });
+
+  afterEach(async () => {
+    await queue?.stop();
+    queue = undefined;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Create a started queue whose deliveries take a while and succeed
+   * @param maxConnections Connections per destination domain
+   */
+  function createQueue(maxConnections: number, delay = 100) {
+    const throttle = new DeliveryThrottle({
+      ...defaultRateLimitConfig,
+      destination: { ...defaultRateLimitConfig.destination, maxConnections },
+    });
+    const delivered: string[] = [];
+    const deliver: DeliverFunction = async (entry, message, to) => {
+      await sleep(delay);
+      delivered.push(entry.id);
+      return to.map(
+        (address): RecipientResult => ({ address, status: 'delivered', response: '250 OK' })
+      );
+    };
+    queue = new OutboundQueue({ ...defaultQueueConfig, dir }, deliver, throttle);
+    queue.start();
+    return { queue, throttle, delivered };
+  }
+
+  it('delivers messages to a domain one connection at a time', async () => {
+    const { queue, delivered } = createQueue(1);
+    const ids = [1, 2, 3].map(
+      n => queue.enqueue('a@example.com', ['user@example.net'], Buffer.from('x'), `<${n}@x>`).id
+    );
+    for (let attempt = 0; attempt < 50 && delivered.length < 3; attempt++) await sleep(50);
+    assert.deepEqual(delivered, ids);
+  });
+
+  it('does not rescan the queue while a domain has no free connection', async () => {
+    const { queue, throttle } = createQueue(0);
+    const checks = mock.method(throttle, 'hasFreeConnection');
+    queue.enqueue('a@example.com', ['user@example.net'], Buffer.from('x'), '<1@x>');
+    await sleep(300);
+    assert.ok(checks.mock.callCount() <= 2, `${checks.mock.callCount()} scans`);
+  });
+});
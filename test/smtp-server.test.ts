@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import SMTPConnection from 'nodemailer/lib/smtp-connection/index.js';
+import { defaultLogConfig, SmtpUser, TinkSESConfig } from '../src/config.js';
+import { configureLogger } from '../src/logger.js';
+import { SmtpServer } from '../src/smtp-server.js';
+
+const SMTP_PORT = 28028;
+
+/**
+ * Send a message without authentication
+ * @returns The error the server refused it with, if any
+ */
+async function sendUnauthenticated(to: string, message: string): Promise<Error | undefined> {
+  const connection = new SMTPConnection({ port: SMTP_PORT, host: '127.0.0.1', ignoreTLS: true });
+  try {
+    await new Promise<void>((resolve, reject) => {
+      connection.once('error', reject);
+      connection.connect(() => resolve());
+    });
+    await new Promise<void>((resolve, reject) =>
+      connection.send({ from: 'noreply@receiver.test', to }, message, error =>
+        error ? reject(error) : resolve()
+      )
+    );
+    return undefined;
+  } catch (error) {
+    return error as Error;
+  } finally {
+    connection.close();
+  }
+}
+
+describe('SmtpServer DMARC report address', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tinkses-smtp-'));
+  const reportDir = path.join(dir, 'dmarc-reports');
+  const config: TinkSESConfig = {
+    port: SMTP_PORT,
+    host: '127.0.0.1',
+    domain: 'example.com',
+    ip: [],
+    dkim: { privateKey: '', publicKey: '', selector: 'default' },
+    queue: { dir: path.join(dir, 'queue') },
+    suppression: { file: path.join(dir, 'suppressions.json') },
+    dmarcReports: { address: 'dmarc@example.com', dir: reportDir, maxSize: 1024 },
+    // A hand-edited entry without a hash
+    users: [{ username: 'broken' } as SmtpUser],
+  };
+  // Created like library users do, with its own pipeline
+  const server = new SmtpServer(config);
+  const storedReports = () => fs.readdirSync(path.join(reportDir, 'new'));
+
+  before(async () => {
+    configureLogger({ ...defaultLogConfig, level: 'error' });
+    server.start();
+    await new Promise(resolve => setTimeout(resolve, 100));
+  });
+
+  after(async () => {
+    await server.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('stores reports sent to the report address', async () => {
+    const error = await sendUnauthenticated(
+      'dmarc@example.com',
+      'Subject: Report Domain: example.com\r\n\r\nreport\r\n'
+    );
+    assert.equal(error, undefined);
+    assert.equal(storedReports().length, 1);
+  });
+
+  it('refuses reports larger than the maximum size', async () => {
+    const error = await sendUnauthenticated(
+      'dmarc@example.com',
+      `Subject: Large report\r\n\r\n${'x'.repeat(76)}\r\n`.repeat(20)
+    );
+    assert.equal((error as { responseCode?: number } | undefined)?.responseCode, 552);
+    assert.equal(storedReports().length, 1);
+  });
+
+  it('refuses other recipients without authentication', async () => {
+    const error = await sendUnauthenticated('user@example.net', 'Subject: Hi\r\n\r\nHello\r\n');
+    assert.equal((error as { responseCode?: number } | undefined)?.responseCode, 530);
+  });
+
+  it('answers AUTH with an error when a user entry is broken', async () => {
+    const connection = new SMTPConnection({ port: SMTP_PORT, host: '127.0.0.1', ignoreTLS: true });
+    try {
+      await new Promise<void>(resolve => connection.connect(() => resolve()));
+      const error = await new Promise<Error | null | undefined>(resolve =>
+        connection.login({ user: 'broken', pass: 'secret' }, resolve)
+      );
+      assert.match(error?.message || '', /Error checking credentials/);
+    } finally {
+      connection.close();
+    }
+  });
+});
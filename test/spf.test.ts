@@ -0,0 +1,227 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { checkSpf, countSpfLookups, inNetwork, ipv6Nibbles, SpfDnsResolver } from '../src/spf.js';
+
+interface FixtureRecords {
+  txt?: string[];
+  a?: string[];
+  aaaa?: string[];
+  mx?: string[];
+}
+
+/**
+ * Resolver answering from a fixture zone, names without records of a type have no data
+ */
+function fixtureResolver(zone: Record<string, FixtureRecords>): SpfDnsResolver {
+  const answer = <T>(name: string, records: T[] | undefined): T[] => {
+    if (!records) {
+      const code = zone[name] ? 'ENODATA' : 'ENOTFOUND';
+      throw Object.assign(new Error(`${code} ${name}`), { code });
+    }
+    return records;
+  };
+  return {
+    async resolveTxt(name) {
+      if (name === 'servfail.test') {
+        throw Object.assign(new Error('queryTxt ESERVFAIL'), { code: 'ESERVFAIL' });
+      }
+      return answer(name, zone[name]?.txt).map(record => [record]);
+    },
+    async resolve4(name) {
+      return answer(name, zone[name]?.a);
+    },
+    async resolve6(name) {
+      return answer(name, zone[name]?.aaaa);
+    },
+    async resolveMx(name) {
+      return answer(name, zone[name]?.mx).map((exchange, index) => ({
+        exchange,
+        priority: index * 10,
+      }));
+    },
+    async reverse(ip) {
+      return answer(ip, undefined);
+    },
+  };
+}
+
+const zone: Record<string, FixtureRecords> = {
+  'example.test': {
+    txt: ['google-site-verification=abc', 'v=spf1 ip4:192.0.2.0/24 include:_spf.esp.test -all'],
+  },
+  '_spf.esp.test': { txt: ['v=spf1 ip4:198.51.100.7 ip6:2001:db8:1::/48 ~all'] },
+  'redirected.test': { txt: ['v=spf1 redirect=example.test'] },
+  'hosts.test': {
+    txt: ['v=spf1 a/28 mx/24//64 -all'],
+    a: ['203.0.113.16'],
+    mx: ['mx1.hosts.test', 'mx2.hosts.test'],
+  },
+  'mx1.hosts.test': { a: ['198.51.100.200'] },
+  'mx2.hosts.test': { a: ['192.0.2.200'], aaaa: ['2001:db8:2::25'] },
+  'nospf.test': { txt: ['some other record'] },
+};
+
+function check(ip: string, domain: string, extra: Record<string, FixtureRecords> = {}) {
+  return checkSpf(ip, domain, { resolver: fixtureResolver({ ...zone, ...extra }) });
+}
+
+describe('inNetwork', () => {
+  it('matches addresses of the same version within the prefix', () => {
+    assert.equal(inNetwork('192.0.2.77', '192.0.2.0', 24), true);
+    assert.equal(inNetwork('192.0.3.1', '192.0.2.0', 24), false);
+    assert.equal(inNetwork('192.0.2.1', '192.0.2.1'), true);
+    assert.equal(inNetwork('2001:db8::1', '2001:db8::', 32), true);
+    assert.equal(inNetwork('2001:db8::1', '192.0.2.0', 0), false);
+  });
+});
+
+describe('ipv6Nibbles', () => {
+  it('writes every nibble of compressed addresses', () => {
+    assert.equal(
+      ipv6Nibbles('2001:db8::cb01'),
+      '2.0.0.1.0.d.b.8.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.c.b.0.1'
+    );
+  });
+});
+
+describe('checkSpf', () => {
+  it('matches ip4 and ip6 networks, directly and through includes', async () => {
+    const direct = await check('192.0.2.10', 'example.test');
+    assert.equal(direct.result, 'pass');
+    assert.equal(direct.mechanism, 'ip4:192.0.2.0/24');
+    assert.equal(direct.lookups, 0);
+
+    const included = await check('198.51.100.7', 'example.test');
+    assert.equal(included.result, 'pass');
+    assert.equal(included.mechanism, 'include:_spf.esp.test > ip4:198.51.100.7');
+    assert.equal(included.lookups, 1);
+
+    const ipv6 = await check('2001:db8:1:ffff::1', 'example.test');
+    assert.equal(ipv6.mechanism, 'include:_spf.esp.test > ip6:2001:db8:1::/48');
+    assert.equal((await check('2001:db8:2::1', 'example.test')).result, 'fail');
+  });
+
+  it('fails with the all mechanism of the record, not the one of an include', async () => {
+    const result = await check('203.0.113.1', 'example.test');
+    assert.equal(result.result, 'fail');
+    assert.equal(result.mechanism, '-all');
+  });
+
+  it('follows redirects and counts them as lookups', async () => {
+    const result = await check('198.51.100.7', 'redirected.test');
+    assert.equal(result.result, 'pass');
+    assert.equal(
+      result.mechanism,
+      'redirect=example.test > include:_spf.esp.test > ip4:198.51.100.7'
+    );
+    assert.equal(result.lookups, 2);
+    assert.equal((await check('203.0.113.1', 'redirected.test')).result, 'fail');
+  });
+
+  it('ignores redirects of records with an all mechanism', async () => {
+    const result = await check('198.51.100.7', 'mixed.test', {
+      'mixed.test': { txt: ['v=spf1 redirect=example.test ?all'] },
+    });
+    assert.equal(result.result, 'neutral');
+    assert.equal(result.lookups, 0);
+  });
+
+  it('applies the prefix lengths of a and mx to the host addresses', async () => {
+    assert.equal((await check('203.0.113.31', 'hosts.test')).mechanism, 'a/28');
+    assert.equal((await check('198.51.100.1', 'hosts.test')).mechanism, 'mx/24//64');
+    assert.equal((await check('192.0.2.1', 'hosts.test')).mechanism, 'mx/24//64');
+    assert.equal((await check('2001:db8:2::1', 'hosts.test')).mechanism, 'mx/24//64');
+    assert.equal((await check('203.0.113.32', 'hosts.test')).result, 'fail');
+    assert.equal((await check('2001:db8:3::1', 'hosts.test')).result, 'fail');
+  });
+
+  it('returns none for domains without an SPF record', async () => {
+    assert.equal((await check('192.0.2.1', 'nospf.test')).result, 'none');
+    assert.equal((await check('192.0.2.1', 'missing.test')).result, 'none');
+  });
+
+  it('returns temperror when a lookup fails', async () => {
+    const result = await check('192.0.2.1', 'servfail.test');
+    assert.equal(result.result, 'temperror');
+    assert.match(result.error || '', /ESERVFAIL/);
+  });
+
+  it('returns permerror after more than 10 lookups', async () => {
+    // Each record includes the next one, the last one lists the address
+    const chain = (length: number) => {
+      const records: Record<string, FixtureRecords> = {};
+      for (let i = 0; i < length; i++) {
+        records[`${i}.chain.test`] = { txt: [`v=spf1 include:${i + 1}.chain.test -all`] };
+      }
+      records[`${length}.chain.test`] = { txt: ['v=spf1 ip4:192.0.2.1 -all'] };
+      return records;
+    };
+
+    const atLimit = await check('192.0.2.1', '0.chain.test', chain(10));
+    assert.equal(atLimit.result, 'pass');
+    assert.equal(atLimit.lookups, 10);
+
+    const result = await check('192.0.2.1', '0.chain.test', chain(11));
+    assert.equal(result.result, 'permerror');
+    assert.equal(result.error, 'More than 10 DNS lookups, exceeded at include:11.chain.test');
+  });
+
+  it('returns permerror after more than 2 lookups without an answer', async () => {
+    const extra = {
+      'void.test': { txt: ['v=spf1 a:gone1.test mx:gone2.test exists:gone3.test -all'] },
+    };
+    const result = await check('192.0.2.1', 'void.test', extra);
+    assert.equal(result.result, 'permerror');
+    assert.equal(
+      result.error,
+      'More than 2 lookups without an answer, exceeded at exists:gone3.test'
+    );
+
+    extra['void.test'].txt = ['v=spf1 a:gone1.test mx:gone2.test -all'];
+    assert.equal((await check('192.0.2.1', 'void.test', extra)).result, 'fail');
+  });
+
+  it('returns permerror for invalid records', async () => {
+    const cases: Record<string, string[]> = {
+      'several.test': ['v=spf1 -all', 'v=spf1 ~all'],
+      'syntax.test': ['v=spf1 ip4:192.0.2.1 foo -all'],
+      'bad-ip4.test': ['v=spf1 ip4:2001:db8::1 -all'],
+      'bad-prefix.test': ['v=spf1 ip4:192.0.2.0/33 -all'],
+      'bad-a.test': ['v=spf1 a/33 -all'],
+      'all-domain.test': ['v=spf1 all:example.test'],
+      'duplicate-redirect.test': ['v=spf1 redirect=example.test redirect=example.test'],
+      'missing-include.test': ['v=spf1 include:nospf.test -all'],
+      'missing-redirect.test': ['v=spf1 redirect=missing.test'],
+      'broken-include.test': ['v=spf1 include:several.test -all'],
+      'bad-macro.test': ['v=spf1 exists:%{x -all'],
+    };
+    const extra = Object.fromEntries(Object.entries(cases).map(([name, txt]) => [name, { txt }]));
+    for (const domain of Object.keys(cases)) {
+      const result = await check('192.0.2.1', domain, extra);
+      assert.equal(result.result, 'permerror', domain);
+      assert.ok(result.error, domain);
+    }
+  });
+
+  it('warns about records any host passes', async () => {
+    const result = await check('203.0.113.1', 'open.test', {
+      'open.test': { txt: ['v=spf1 ip4:192.0.2.1 +all'] },
+    });
+    assert.equal(result.result, 'pass');
+    assert.deepEqual(result.warnings, ['The record of open.test ends with +all, any host passes']);
+  });
+});
+
+describe('countSpfLookups', () => {
+  it('counts the lookups of every branch of the record', async () => {
+    const resolver = fixtureResolver(zone);
+    assert.deepEqual(await countSpfLookups('example.test', { resolver }), {
+      result: 'neutral',
+      mechanism: undefined,
+      lookups: 1,
+      warnings: [],
+    });
+    assert.equal((await countSpfLookups('hosts.test', { resolver })).lookups, 2);
+    assert.equal((await countSpfLookups('redirected.test', { resolver })).lookups, 2);
+  });
+});
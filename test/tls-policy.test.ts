@@ -0,0 +1,273 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it, mock } from 'node:test';
+import { OutboundTlsConfig } from '../src/config.js';
+import {
+  MtaStsFetcher,
+  mxMatchesPatterns,
+  parseMtaStsPolicy,
+  parseMtaStsRecord,
+  readPolicyResponse,
+  TlsPolicyResolver,
+} from '../src/tls-policy.js';
+
+const config: OutboundTlsConfig = {
+  defaultPolicy: 'opportunistic',
+  mtaSts: true,
+  policies: { 'override.test': 'none' },
+};
+
+/**
+ * Fetcher serving TXT records and policy files from fixtures, counting policy fetches
+ */
+function fixtureFetcher(records: Record<string, string[]>, policies: Record<string, string>) {
+  const fetches: string[] = [];
+  const fetcher: MtaStsFetcher = {
+    async resolveTxt(name) {
+      if (!records[name]) {
+        throw Object.assign(new Error(`${name} not found`), { code: 'ENOTFOUND' });
+      }
+      return records[name].map(record => [record]);
+    },
+    async fetchPolicy(domain) {
+      fetches.push(domain);
+      if (!policies[domain]) throw new Error('MTA-STS policy fetch failed with HTTP 404');
+      return policies[domain];
+    },
+  };
+  return { fetcher, fetches, records, policies };
+}
+
+function policyFile(
+  mode: string,
+  maxAge = 86400,
+  mx = ['mx1.example.test', '*.mail.example.test']
+) {
+  return [
+    'version: STSv1',
+    `mode: ${mode}`,
+    ...mx.map(pattern => `mx: ${pattern}`),
+    `max_age: ${maxAge}`,
+  ].join('\r\n');
+}
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('parseMtaStsRecord', () => {
+  it('returns the id of a single STSv1 record', () => {
+    assert.equal(parseMtaStsRecord([['v=STSv1; id=20260101T000000;']]), '20260101T000000');
+    assert.equal(parseMtaStsRecord([['v=STSv1;', ' id=abc']]), 'abc');
+  });
+
+  it('ignores other records and treats several STSv1 records as none', () => {
+    assert.equal(parseMtaStsRecord([['v=spf1 -all'], ['v=STSv1; id=abc']]), 'abc');
+    assert.equal(parseMtaStsRecord([['v=STSv1; id=abc'], ['v=STSv1; id=def']]), undefined);
+    assert.equal(parseMtaStsRecord([['v=STSv1; id=not-alphanumeric']]), undefined);
+    assert.equal(parseMtaStsRecord([]), undefined);
+  });
+});
+
+describe('parseMtaStsPolicy', () => {
+  it('parses the fields of a policy', () => {
+    const policy = parseMtaStsPolicy(policyFile('enforce', 604800, ['MX1.Example.test']), 'id1');
+    assert.equal(policy.id, 'id1');
+    assert.equal(policy.mode, 'enforce');
+    assert.deepEqual(policy.mx, ['mx1.example.test']);
+    assert.equal(policy.maxAge, 604800);
+  });
+
+  it('accepts a none policy without mx patterns', () => {
+    assert.deepEqual(parseMtaStsPolicy('version: STSv1\nmode: none\nmax_age: 0\n', 'id').mx, []);
+  });
+
+  it('rejects invalid policies', () => {
+    assert.throws(() => parseMtaStsPolicy(policyFile('enforce').replace('STSv1', 'STSv2'), 'id'));
+    assert.throws(() => parseMtaStsPolicy(policyFile('strict'), 'id'), /mode/);
+    assert.throws(() => parseMtaStsPolicy(policyFile('enforce', -1), 'id'), /max_age/);
+    assert.throws(() => parseMtaStsPolicy(policyFile('testing', 60, []), 'id'), /mx patterns/);
+  });
+});
+
+describe('readPolicyResponse', () => {
+  const plain = { 'Content-Type': 'text/plain; charset=utf-8' };
+
+  it('returns the body of text/plain responses', async () => {
+    const response = new Response(policyFile('enforce'), { headers: plain });
+    assert.equal(await readPolicyResponse(response), policyFile('enforce'));
+  });
+
+  it('rejects errors and other content types', async () => {
+    await assert.rejects(
+      readPolicyResponse(new Response('not found', { status: 404, headers: plain })),
+      /HTTP 404/
+    );
+    await assert.rejects(
+      readPolicyResponse(
+        new Response(policyFile('enforce'), { headers: { 'Content-Type': 'text/html' } })
+      ),
+      /content type text\/html/
+    );
+  });
+
+  it('stops reading bodies over 64 KB', async () => {
+    let pulled = 0;
+    const endless = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled++;
+        controller.enqueue(new Uint8Array(16 * 1024).fill(0x61));
+      },
+    });
+    await assert.rejects(
+      readPolicyResponse(new Response(endless, { headers: plain })),
+      /too large/
+    );
+    assert.ok(pulled < 10);
+  });
+});
+
+describe('mxMatchesPatterns', () => {
+  const patterns = ['mx1.example.test', '*.mail.example.test'];
+
+  it('matches host names exactly, case insensitive and without the trailing dot', () => {
+    assert.equal(mxMatchesPatterns('mx1.example.test', patterns), true);
+    assert.equal(mxMatchesPatterns('MX1.Example.Test.', patterns), true);
+    assert.equal(mxMatchesPatterns('mx2.example.test', patterns), false);
+  });
+
+  it('matches exactly one label with a wildcard', () => {
+    assert.equal(mxMatchesPatterns('a.mail.example.test', patterns), true);
+    assert.equal(mxMatchesPatterns('a.b.mail.example.test', patterns), false);
+    assert.equal(mxMatchesPatterns('mail.example.test', patterns), false);
+    assert.equal(mxMatchesPatterns('amail.example.test', patterns), false);
+  });
+});
+
+describe('TlsPolicyResolver', () => {
+  it('applies configured overrides without looking up MTA-STS', async () => {
+    const { fetcher, fetches } = fixtureFetcher({}, {});
+    const resolver = new TlsPolicyResolver(config, fetcher);
+    assert.deepEqual(await resolver.getPolicy('Override.test'), {
+      mode: 'none',
+      source: 'override',
+    });
+    assert.deepEqual(fetches, []);
+  });
+
+  it('requires TLS to the policy MX hosts of enforce policies', async () => {
+    const { fetcher } = fixtureFetcher(
+      { '_mta-sts.enforce.test': ['v=STSv1; id=1'] },
+      { 'enforce.test': policyFile('enforce') }
+    );
+    const resolver = new TlsPolicyResolver(config, fetcher);
+    assert.deepEqual(await resolver.getPolicy('enforce.test'), {
+      mode: 'require',
+      source: 'mta-sts',
+      mxPatterns: ['mx1.example.test', '*.mail.example.test'],
+    });
+  });
+
+  it('delivers opportunistically with testing policies', async () => {
+    const { fetcher } = fixtureFetcher(
+      { '_mta-sts.testing.test': ['v=STSv1; id=1'] },
+      { 'testing.test': policyFile('testing') }
+    );
+    const resolver = new TlsPolicyResolver({ ...config, defaultPolicy: 'none' }, fetcher);
+    assert.deepEqual(await resolver.getPolicy('testing.test'), {
+      mode: 'opportunistic',
+      source: 'mta-sts',
+    });
+  });
+
+  it('uses the default policy for none policies, domains without MTA-STS or when disabled', async () => {
+    const { fetcher, fetches } = fixtureFetcher(
+      { '_mta-sts.none.test': ['v=STSv1; id=1'], '_mta-sts.enforce.test': ['v=STSv1; id=1'] },
+      { 'none.test': 'version: STSv1\nmode: none\nmax_age: 86400\n' }
+    );
+    const resolver = new TlsPolicyResolver(config, fetcher);
+    const defaultPolicy = { mode: 'opportunistic', source: 'default' };
+    assert.deepEqual(await resolver.getPolicy('none.test'), defaultPolicy);
+    assert.deepEqual(await resolver.getPolicy('plain.test'), defaultPolicy);
+
+    const disabled = new TlsPolicyResolver({ ...config, mtaSts: false }, fetcher);
+    assert.deepEqual(await disabled.getPolicy('enforce.test'), defaultPolicy);
+    assert.deepEqual(fetches, ['none.test']);
+  });
+
+  it('caches policies while the id is unchanged and refetches on a new id', async () => {
+    const { fetcher, fetches, records } = fixtureFetcher(
+      { '_mta-sts.example.test': ['v=STSv1; id=1'] },
+      { 'example.test': policyFile('enforce') }
+    );
+    const resolver = new TlsPolicyResolver(config, fetcher);
+    await resolver.getMtaStsPolicy('example.test');
+    await resolver.getMtaStsPolicy('example.test');
+    assert.deepEqual(fetches, ['example.test']);
+
+    records['_mta-sts.example.test'] = ['v=STSv1; id=2'];
+    assert.equal((await resolver.getMtaStsPolicy('example.test'))?.id, '2');
+    assert.deepEqual(fetches, ['example.test', 'example.test']);
+  });
+
+  it('refetches policies after max_age', async () => {
+    let now = Date.now();
+    mock.method(Date, 'now', () => now);
+    const { fetcher, fetches } = fixtureFetcher(
+      { '_mta-sts.example.test': ['v=STSv1; id=1'] },
+      { 'example.test': policyFile('enforce', 3600) }
+    );
+    const resolver = new TlsPolicyResolver(config, fetcher);
+    await resolver.getMtaStsPolicy('example.test');
+
+    now += 3599 * 1000;
+    await resolver.getMtaStsPolicy('example.test');
+    assert.equal(fetches.length, 1);
+
+    now += 2 * 1000;
+    await resolver.getMtaStsPolicy('example.test');
+    assert.equal(fetches.length, 2);
+  });
+
+  it('keeps using a cached policy until it expires when lookups or fetches fail', async () => {
+    let now = Date.now();
+    mock.method(Date, 'now', () => now);
+    const { fetcher, records, policies } = fixtureFetcher(
+      { '_mta-sts.example.test': ['v=STSv1; id=1'] },
+      { 'example.test': policyFile('enforce', 3600) }
+    );
+    const resolver = new TlsPolicyResolver(config, fetcher);
+    await resolver.getMtaStsPolicy('example.test');
+
+    // A new id whose policy cannot be fetched
+    records['_mta-sts.example.test'] = ['v=STSv1; id=2'];
+    delete policies['example.test'];
+    assert.equal((await resolver.getMtaStsPolicy('example.test'))?.id, '1');
+
+    // The record disappears
+    delete records['_mta-sts.example.test'];
+    assert.equal((await resolver.getPolicy('example.test')).mode, 'require');
+
+    now += 3601 * 1000;
+    assert.equal(await resolver.getMtaStsPolicy('example.test'), undefined);
+    assert.deepEqual(await resolver.getPolicy('example.test'), {
+      mode: 'opportunistic',
+      source: 'default',
+    });
+  });
+
+  it('falls back to the default policy when the first fetch fails', async () => {
+    const { fetcher } = fixtureFetcher(
+      { '_mta-sts.broken.test': ['v=STSv1; id=1'] },
+      { 'broken.test': 'version: STSv1\nmode: enforce\n' }
+    );
+    const resolver = new TlsPolicyResolver(config, fetcher);
+    assert.deepEqual(await resolver.getPolicy('broken.test'), {
+      mode: 'opportunistic',
+      source: 'default',
+    });
+    assert.deepEqual(await resolver.getPolicy('missing-policy.test'), {
+      mode: 'opportunistic',
+      source: 'default',
+    });
+  });
+});